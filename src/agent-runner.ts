@@ -0,0 +1,382 @@
+import { createWriteStream } from 'fs';
+import { CommandRecord, LogEvent, LogEventBase, LogEventKind, PathDenial, SessionUsage, TaskState } from './types.js';
+import { StateManager } from './state-manager.js';
+import { PathScope } from './path-scope.js';
+import { SecretScanner } from './secret-scanner.js';
+import { EventRenderer, formatEvent } from './event-log.js';
+import { TaskStateSchema, type AgentOptions } from './schemas.js';
+
+// How much output to keep for a failed command in the command record
+const MAX_COMMAND_OUTPUT = 2000;
+
+// Events shown on the console while a session runs (the rest only go to the event log)
+const LIVE_EVENTS: LogEventKind[] = ['assistant_text', 'tool_call', 'tool_result', 'tool_denied', 'result'];
+
+/**
+ * Options for a single session
+ */
+export interface SessionOptions {
+  maxBudgetUsd?: number; // Stop the session once this is spent
+  resumeSessionId?: string; // Continue this earlier session instead of starting fresh
+  tools?: string[]; // Restrict the session to these built-in tools
+  label?: string; // Kind of session, shown in the log header (default: "Task")
+  pathScope?: PathScope; // Refuse file edits outside these paths
+  secretScanner?: SecretScanner; // Redact likely secrets from the events written to the log
+  attempt?: number; // Attempt the session belongs to, recorded on its log events
+  acceptanceCommands?: string[]; // Commands the supervisor verifies the work with (scripted sessions can run them)
+}
+
+/**
+ * Why a running session was stopped by the supervisor
+ */
+export type InterruptReason = 'timeout' | 'interrupted' | 'budget';
+
+/**
+ * Thrown when a session is aborted (timeout, Ctrl+C, budget) after it has fully stopped
+ */
+export class TaskInterruptedError extends Error {
+  readonly reason: InterruptReason;
+
+  constructor(reason: InterruptReason, message: string) {
+    super(message);
+    this.name = 'TaskInterruptedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Runs agent sessions for the supervisor
+ * ClaudeRunner talks to Claude through the Agent SDK; ScriptedRunner replays scenarios offline
+ */
+export interface AgentRunner {
+  run(taskId: string, prompt: string, options?: SessionOptions): Promise<TaskState>;
+  runStructured(
+    taskId: string,
+    prompt: string,
+    outputSchema: Record<string, unknown>,
+    options?: SessionOptions
+  ): Promise<unknown>;
+  abort(reason: InterruptReason, message: string): void;
+  getLastUsage(): SessionUsage | null;
+  getLastSessionId(): string | null;
+  getLastCommands(): CommandRecord[];
+  getLastDenials(): PathDenial[];
+  validateStateFile(taskId: string): Promise<{ valid: boolean; error?: string }>;
+}
+
+/**
+ * Creates the runner for a task's (or reviewer's) sessions, with ClaudeRunner's constructor arguments
+ */
+export type RunnerFactory = (
+  stateManager: StateManager,
+  projectDir: string,
+  timeoutMs: number,
+  worktreeDir?: string,
+  agentOptions?: AgentOptions
+) => AgentRunner;
+
+/**
+ * Writes an event of the running session to its log (and the console)
+ */
+export type EmitEvent = (event: LogEvent) => void;
+
+/**
+ * What a backend gets to run one session
+ */
+export interface SessionContext {
+  taskId: string;
+  prompt: string;
+  options: SessionOptions;
+  outputSchema?: Record<string, unknown>; // Set for runStructured()
+  cwd: string; // The worktree (or project) the session works in
+  signal: AbortSignal; // Aborted on timeout, Ctrl+C or budget exhaustion
+  emit: EmitEvent;
+  base: () => LogEventBase; // Common fields for the next event
+}
+
+/**
+ * Session handling shared by the backends: the event log, timeout and abort, the command
+ * record and refused edits, and reading the state file the session wrote
+ */
+export abstract class BaseRunner implements AgentRunner {
+  protected stateManager: StateManager;
+  protected sessionStateManager: StateManager; // Where the session writes its state file (inside the worktree, if any)
+  protected timeoutMs: number;
+  protected projectDir: string;
+  protected worktreeDir?: string; // Optional worktree directory for parallel execution
+  protected lastUsage: SessionUsage | null = null; // Usage of the last session, kept up to date while it runs
+  protected lastSessionId: string | null = null; // Session ID of the last session, used to resume it
+  private abortController?: AbortController; // Set while a session is running
+  private interruptReason?: InterruptReason;
+  private interruptMessage?: string;
+  private lastCommands: CommandRecord[] = []; // Bash commands run in the last session, in order
+  private pendingCommands = new Map<string, string>(); // Bash tool_use ID -> command, until its result arrives
+  private lastDenials: PathDenial[] = []; // Edits refused in the last session for being out of scope
+  private renderer = new EventRenderer();
+
+  constructor(stateManager: StateManager, projectDir: string, timeoutMs: number, worktreeDir?: string) {
+    this.stateManager = stateManager;
+    this.projectDir = projectDir;
+    this.timeoutMs = timeoutMs;
+    this.worktreeDir = worktreeDir;
+    this.sessionStateManager = worktreeDir ? new StateManager(worktreeDir) : stateManager;
+  }
+
+  /**
+   * Describe the backend's session options for the log header
+   */
+  protected abstract describeOptions(): string;
+
+  /**
+   * Run one session, emitting its events
+   * Returns the session's structured answer (for runStructured), or undefined
+   */
+  protected abstract execute(session: SessionContext): Promise<unknown>;
+
+  /**
+   * Abort the running session, if any
+   * run() waits for the agent to stop and then throws a TaskInterruptedError
+   */
+  abort(reason: InterruptReason, message: string): void {
+    if (!this.abortController || this.abortController.signal.aborted) {
+      return;
+    }
+
+    this.interruptReason = reason;
+    this.interruptMessage = message;
+    this.abortController.abort();
+  }
+
+  /**
+   * Cost and tokens of the last session (null if it spent nothing)
+   * Available after run() returns or throws; an aborted session reports what it spent before stopping
+   */
+  getLastUsage(): SessionUsage | null {
+    return this.lastUsage;
+  }
+
+  /**
+   * Session ID of the last session (null if it never started)
+   * Available after run() returns or throws
+   */
+  getLastSessionId(): string | null {
+    return this.lastSessionId;
+  }
+
+  /**
+   * Bash commands the last session ran, with whether each one failed
+   * Available after run() returns or throws
+   */
+  getLastCommands(): CommandRecord[] {
+    return this.lastCommands;
+  }
+
+  /**
+   * File edits the last session's path scope refused
+   * Available after run() returns or throws
+   */
+  getLastDenials(): PathDenial[] {
+    return this.lastDenials;
+  }
+
+  /**
+   * Run a session with real-time streaming
+   * Returns the task state the session wrote, or throws an error
+   */
+  async run(taskId: string, prompt: string, options: SessionOptions = {}): Promise<TaskState> {
+    // The worktree's state file from an earlier session must not pass for this one's
+    if (this.worktreeDir) {
+      await this.sessionStateManager.resetTask(taskId);
+    }
+
+    await this.runSession(taskId, prompt, options);
+
+    // Claude should have written a state file before exiting
+    const state = await this.sessionStateManager.loadState(taskId);
+    if (!state) {
+      throw new Error(
+        `Claude did not write state file for task ${taskId}. Check log at: ${this.stateManager.getEventLogPath(taskId)}`
+      );
+    }
+
+    return state;
+  }
+
+  /**
+   * Run a session whose final answer must match a JSON schema
+   * Returns the answer (not yet validated against the schema) instead of reading a state file
+   */
+  async runStructured(
+    taskId: string,
+    prompt: string,
+    outputSchema: Record<string, unknown>,
+    options: SessionOptions = {}
+  ): Promise<unknown> {
+    const answer = await this.runSession(taskId, prompt, options, outputSchema);
+    if (answer === undefined) {
+      throw new Error(
+        `Claude did not return a structured answer for task ${taskId}. Check log at: ${this.stateManager.getEventLogPath(taskId)}`
+      );
+    }
+
+    return answer;
+  }
+
+  /**
+   * Validate that a state file from Claude is valid
+   */
+  async validateStateFile(taskId: string): Promise<{ valid: boolean; error?: string }> {
+    try {
+      const state = await this.sessionStateManager.loadState(taskId);
+
+      if (!state) {
+        return {
+          valid: false,
+          error: 'State file does not exist',
+        };
+      }
+
+      // Parse with schema to validate structure
+      TaskStateSchema.parse(state);
+
+      return { valid: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        valid: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Record and log an edit the path scope refused
+   */
+  protected denyPath(session: SessionContext, tool: string, path: string, reason: string): void {
+    this.lastDenials.push({ tool, path, reason, deniedAt: new Date().toISOString() });
+    session.emit({ ...session.base(), kind: 'tool_denied', tool, path, reason });
+  }
+
+  /**
+   * Stream one session to the log and console, returning its structured answer
+   */
+  private async runSession(
+    taskId: string,
+    prompt: string,
+    options: SessionOptions,
+    outputSchema?: Record<string, unknown>
+  ): Promise<unknown> {
+    // Ensure logs directory exists first
+    await this.stateManager.ensureLogsDir();
+
+    const logStream = createWriteStream(this.stateManager.getEventLogPath(taskId), { flags: 'a' });
+    const emit: EmitEvent = (event) => {
+      logStream.write(formatEvent(event, options.secretScanner));
+      this.recordCommand(event);
+      if (LIVE_EVENTS.includes(event.kind)) {
+        process.stdout.write(this.renderer.render(event));
+      }
+    };
+    const base = (): LogEventBase => ({ taskId, attempt: options.attempt, timestamp: new Date().toISOString() });
+    // Flushed before returning, so events the supervisor appends next come after the session's
+    const closeLog = () => new Promise<void>((resolve) => logStream.end(resolve));
+
+    // Use worktree directory if provided, otherwise use project directory
+    const cwd = this.worktreeDir || this.projectDir;
+
+    emit({
+      ...base(),
+      kind: 'session_start',
+      label: options.label ?? 'Task',
+      options: this.describeOptions(),
+      resumeSessionId: options.resumeSessionId,
+      cwd,
+    });
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.interruptReason = undefined;
+    this.interruptMessage = undefined;
+    this.lastUsage = null;
+    this.lastSessionId = null;
+    this.lastCommands = [];
+    this.pendingCommands.clear();
+    this.lastDenials = [];
+
+    // Abort the session (rather than just stop waiting for it) when the timeout fires
+    const timeout = setTimeout(() => {
+      this.abort('timeout', `Task ${taskId} timed out after ${this.timeoutMs / 1000 / 60} minutes`);
+    }, this.timeoutMs);
+
+    try {
+      let answer: unknown;
+      try {
+        answer = await this.execute({
+          taskId,
+          prompt,
+          options,
+          outputSchema,
+          cwd,
+          signal: abortController.signal,
+          emit,
+          base,
+        });
+      } catch (error) {
+        // Backends reject (e.g. with an AbortError) once an aborted session has stopped
+        if (!abortController.signal.aborted) {
+          throw error;
+        }
+      }
+
+      if (abortController.signal.aborted) {
+        throw new TaskInterruptedError(
+          this.interruptReason ?? 'interrupted',
+          this.interruptMessage ?? `Task ${taskId} was interrupted`
+        );
+      }
+
+      emit({ ...base(), kind: 'session_end', outcome: 'completed' });
+      await closeLog();
+
+      return answer;
+    } catch (error) {
+      if (error instanceof TaskInterruptedError) {
+        process.stdout.write(`\n⏹  ${error.message}\n`);
+        emit({ ...base(), kind: 'session_end', outcome: 'interrupted', message: `(${error.reason}) ${error.message}` });
+        await closeLog();
+        throw error;
+      }
+
+      emit({
+        ...base(),
+        kind: 'session_end',
+        outcome: 'failed',
+        message: error instanceof Error ? error.message : String(error),
+      });
+      await closeLog();
+
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      this.abortController = undefined;
+    }
+  }
+
+  /**
+   * Pair Bash tool calls with their results to build the command record
+   */
+  private recordCommand(event: LogEvent): void {
+    if (event.kind === 'tool_call' && event.tool === 'Bash' && typeof event.input.command === 'string') {
+      this.pendingCommands.set(event.toolUseId, event.input.command);
+    }
+
+    if (event.kind === 'tool_result') {
+      const command = this.pendingCommands.get(event.toolUseId);
+      if (command === undefined) return;
+      this.pendingCommands.delete(event.toolUseId);
+
+      const output = event.isError ? event.output.slice(-MAX_COMMAND_OUTPUT) : '';
+      this.lastCommands.push({ command, isError: event.isError, ...(output ? { output } : {}) });
+    }
+  }
+}
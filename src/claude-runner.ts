@@ -4,11 +4,30 @@ import {
   type SDKAssistantMessage,
   type SDKUserMessage,
   type SDKResultMessage,
+  type HookCallback,
 } from '@anthropic-ai/claude-agent-sdk';
-import { createWriteStream } from 'fs';
-import { TaskState } from './types.js';
+import { SessionUsage } from './types.js';
 import { StateManager } from './state-manager.js';
-import { TaskStateSchema } from './schemas.js';
+import { PathScope } from './path-scope.js';
+import { BaseRunner, TaskInterruptedError, type SessionContext } from './agent-runner.js';
+import { type AgentOptions } from './schemas.js';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+
+// Tools that change files, checked against the task's path scope
+const FILE_EDIT_TOOLS = 'Write|Edit|MultiEdit|NotebookEdit';
+
+// USD per million tokens, used to estimate a session's spend before the SDK reports the exact cost
+// The first entry whose key appears in the model ID wins; the last one covers everything else
+const MODEL_PRICES: Array<[string, { input: number; output: number; cacheRead: number; cacheWrite: number }]> = [
+  ['opus-4-5', { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 }],
+  ['opus', { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 }],
+  ['haiku-4-5', { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 }],
+  ['haiku', { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 }],
+  ['', { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }],
+];
+
+type MessageUsage = SDKAssistantMessage['message']['usage'];
 
 /**
  * Type guard functions for SDK messages
@@ -22,219 +41,301 @@ const isResultMessage = (msg: SDKMessage): msg is SDKResultMessage => msg.type =
 /**
  * Runs Claude Code using the Agent SDK and manages execution
  */
-export class ClaudeRunner {
-  private stateManager: StateManager;
-  private timeoutMs: number;
-  private projectDir: string;
-  private worktreeDir?: string; // Optional worktree directory for parallel execution
+export class ClaudeRunner extends BaseRunner {
+  private agentOptions: AgentOptions;
+  private toolNames = new Map<string, string>(); // tool_use ID -> tool name, to label tool results
+  private streamedUsage = new Map<string, { model: string; usage: MessageUsage }>(); // API message ID -> its usage
 
   constructor(
     stateManager: StateManager,
     projectDir: string = '.',
     timeoutMs: number = 60 * 60 * 1000,
-    worktreeDir?: string
+    worktreeDir?: string,
+    agentOptions: AgentOptions = {}
   ) {
     // 1 hour default timeout
-    this.stateManager = stateManager;
-    this.projectDir = projectDir;
-    this.timeoutMs = timeoutMs;
-    this.worktreeDir = worktreeDir;
+    super(stateManager, projectDir, timeoutMs, worktreeDir);
+    this.agentOptions = {
+      model: DEFAULT_MODEL,
+      permissionMode: 'bypassPermissions',
+      ...agentOptions,
+    };
   }
 
   /**
-   * Execute Claude Code using the Agent SDK with real-time streaming
-   * Returns the task state Claude wrote, or throws an error
-   * Streams all output to log file and console in real-time
+   * Describe the resolved session options for the log header
    */
-  async run(taskId: string, prompt: string): Promise<TaskState> {
-    // Ensure logs directory exists first
-    await this.stateManager.ensureLogsDir();
+  protected describeOptions(): string {
+    const options = this.agentOptions;
+    const lines = [
+      `Model: ${options.model}${options.fallbackModel ? ` (fallback: ${options.fallbackModel})` : ''}`,
+      `Permission mode: ${options.permissionMode}`,
+      `Max turns: ${options.maxTurns ?? 'unlimited'}`,
+      `Timeout: ${this.timeoutMs / 1000 / 60} minutes`,
+    ];
+
+    if (options.allowedTools?.length) {
+      lines.push(`Allowed tools: ${options.allowedTools.join(', ')}`);
+    }
+    if (options.disallowedTools?.length) {
+      lines.push(`Disallowed tools: ${options.disallowedTools.join(', ')}`);
+    }
+    if (options.appendSystemPrompt) {
+      lines.push(`Extra system prompt: ${options.appendSystemPrompt.length} characters`);
+    }
 
-    const logPath = this.stateManager.getLogPath(taskId);
-    const logStream = createWriteStream(logPath, { flags: 'a' });
+    return lines.join('\n');
+  }
 
-    // Write header to log
-    logStream.write(
-      `\n${'='.repeat(80)}\nClaudefather Task: ${taskId}\nStarted: ${new Date().toISOString()}\n${'='.repeat(80)}\n\n`
-    );
+  /**
+   * Run one session through the Agent SDK, streaming its messages as events
+   */
+  protected async execute(session: SessionContext): Promise<unknown> {
+    const { taskId, prompt, options, outputSchema, cwd } = session;
+    const pathScope = options.pathScope && !options.pathScope.isEmpty() ? options.pathScope : undefined;
+    this.toolNames.clear();
+    this.streamedUsage.clear();
+    let resultMessage: SDKResultMessage | undefined;
 
-    try {
-      // Use worktree directory if provided, otherwise use project directory
-      const cwd = this.worktreeDir || this.projectDir;
-
-      // Create the query using Claude Agent SDK
-      const result = query({
-        prompt,
-        options: {
-          model: 'claude-sonnet-4-5-20250929',
-          cwd,
-          systemPrompt: { type: 'preset', preset: 'claude_code' },
-          permissionMode: 'bypassPermissions',
-          settingSources: ['user', 'local', 'project'], // Load all settings like CLI does
-        },
-      });
+    const {
+      model,
+      fallbackModel,
+      maxTurns,
+      allowedTools,
+      disallowedTools,
+      permissionMode,
+      appendSystemPrompt,
+    } = this.agentOptions;
 
-      // Set timeout
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Task ${taskId} timed out after ${this.timeoutMs / 1000 / 60} minutes`));
-        }, this.timeoutMs);
-      });
+    // The SDK takes an AbortController, aborted along with the session's signal
+    const abortController = new AbortController();
+    session.signal.addEventListener('abort', () => abortController.abort(), { once: true });
 
-      // Stream and process messages
-      await Promise.race([
-        (async () => {
-          for await (const message of result) {
-            // Log everything
-            const messageStr = JSON.stringify(message, null, 2);
-            logStream.write(messageStr + '\n');
-
-            // Display messages to console based on type
-            if (message.type === 'system') {
-              // System initialization message (skip, not shown in Claude Code style)
-              continue;
-            }
-
-            if (isUserMessage(message)) {
-              // User message with tool results - TypeScript now knows this is SDKUserMessage
-              if (message.message?.content && Array.isArray(message.message.content)) {
-                for (const block of message.message.content) {
-                  if (block.type === 'tool_result') {
-                    // Show tool result
-                    const isError = block.is_error || false;
-
-                    // block.content can be a string, array, or object
-                    let resultText = '';
-                    if (typeof block.content === 'string') {
-                      resultText = block.content;
-                    } else if (Array.isArray(block.content)) {
-                      // Extract text from content blocks array
-                      resultText = block.content
-                        .filter((c: unknown): c is { type: 'text'; text: string } =>
-                          typeof c === 'object' && c !== null && 'type' in c && c.type === 'text'
-                        )
-                        .map((c: { type: 'text'; text: string }) => c.text)
-                        .join('\n');
-                    } else if (block.content && typeof block.content === 'object') {
-                      // Try to stringify object content
-                      resultText = JSON.stringify(block.content);
-                    }
-
-                    if (isError) {
-                      process.stdout.write(`  ⎿  ❌ Error\n`);
-                    } else if (typeof resultText === 'string' && resultText.length > 0 && resultText.length < 200) {
-                      // Show short results inline
-                      const preview = resultText.trim().split('\n')[0];
-                      process.stdout.write(`  ⎿  ${preview}\n`);
-                    } else {
-                      process.stdout.write(`  ⎿  ✓\n`);
-                    }
-                  }
-                }
-              }
-            }
-
-            if (isAssistantMessage(message)) {
-              // Assistant message with text and/or tool use - TypeScript knows this is SDKAssistantMessage
-              if (message.message?.content && Array.isArray(message.message.content)) {
-                for (const block of message.message.content) {
-                  if (block.type === 'text') {
-                    // Display assistant text response
-                    const text = block.text.trim();
-                    if (text) {
-                      process.stdout.write(`\n⏺ ${text}\n`);
-                    }
-                  } else if (block.type === 'tool_use') {
-                    // Display tool call in Claude Code style
-                    const input = block.input as Record<string, unknown>;
-
-                    // Build parameter string
-                    let params = '';
-                    if (typeof input.file_path === 'string') {
-                      params = input.file_path;
-                    } else if (typeof input.command === 'string') {
-                      params = input.command;
-                    } else if (typeof input.pattern === 'string') {
-                      params = `"${input.pattern}"`;
-                    } else if (typeof input.description === 'string') {
-                      params = input.description;
-                    } else if (typeof input.prompt === 'string') {
-                      const p = input.prompt;
-                      params = p.length > 60 ? p.substring(0, 60) + '...' : p;
-                    }
-
-                    process.stdout.write(`\n⏺ ${block.name}(${params})\n`);
-                  }
-                }
-              }
-            }
-
-            if (isResultMessage(message)) {
-              // Final result with stats - TypeScript knows this is SDKResultMessage
-              if (message.subtype === 'success') {
-                process.stdout.write(
-                  `\n✓ Completed in ${(message.duration_ms / 1000).toFixed(1)}s (${message.num_turns} turns, $${message.total_cost_usd.toFixed(4)})\n`
-                );
-              } else {
-                process.stdout.write(`\n❌ Failed: ${message.subtype}\n`);
-              }
-            }
-
-            // stream_event messages are ignored (partial streaming events)
-          }
-        })(),
-        timeoutPromise,
-      ]);
-
-      // Write footer to log
-      logStream.write(
-        `\n${'='.repeat(80)}\nProcess completed successfully\nEnded: ${new Date().toISOString()}\n${'='.repeat(80)}\n`
-      );
-      logStream.end();
+    // Create the query using Claude Agent SDK
+    const result = query({
+      prompt,
+      options: {
+        model,
+        fallbackModel,
+        maxTurns,
+        allowedTools,
+        disallowedTools,
+        cwd,
+        tools: options.tools,
+        outputFormat: outputSchema ? { type: 'json_schema', schema: outputSchema } : undefined,
+        systemPrompt: { type: 'preset', preset: 'claude_code', append: appendSystemPrompt },
+        permissionMode,
+        allowDangerouslySkipPermissions: permissionMode === 'bypassPermissions',
+        settingSources: ['user', 'local', 'project'], // Load all settings like CLI does
+        abortController,
+        maxBudgetUsd: options.maxBudgetUsd,
+        resume: options.resumeSessionId,
+        hooks: pathScope
+          ? { PreToolUse: [{ matcher: FILE_EDIT_TOOLS, hooks: [this.guardPaths(pathScope, session)] }] }
+          : undefined,
+      },
+    });
 
-      // Claude should have written a state file before exiting
-      const state = await this.stateManager.loadState(taskId);
-      if (!state) {
-        throw new Error(`Claude did not write state file for task ${taskId}. Check log at: ${logPath}`);
+    // Stream and process messages until the session ends or is aborted
+    for await (const message of result) {
+      this.emitMessage(message, session);
+
+      if ('session_id' in message && message.session_id && !this.lastSessionId) {
+        this.lastSessionId = message.session_id;
+      }
+
+      // Estimate the spend as messages arrive, so a session aborted before its result still counts
+      if (isAssistantMessage(message) && message.message?.usage) {
+        this.streamedUsage.set(message.message.id, { model: message.message.model, usage: message.message.usage });
+        this.lastUsage = this.estimateUsage();
+      }
+
+      if (isResultMessage(message)) {
+        resultMessage = message;
+        this.lastUsage = this.getUsage(message);
       }
+    }
 
-      return state;
-    } catch (error) {
-      // Write error to log
-      logStream.write(`\n[ERROR] ${error instanceof Error ? error.message : String(error)}\n`);
-      logStream.write(
-        `\n${'='.repeat(80)}\nProcess failed\nEnded: ${new Date().toISOString()}\n${'='.repeat(80)}\n`
+    // The SDK stops on its own when a turn or cost budget runs out
+    if (resultMessage?.subtype === 'error_max_budget_usd') {
+      throw new TaskInterruptedError(
+        'budget',
+        `Task ${taskId} exceeded its cost budget of $${options.maxBudgetUsd?.toFixed(2)}`
+      );
+    }
+    if (resultMessage?.subtype === 'error_max_turns') {
+      throw new TaskInterruptedError(
+        'budget',
+        `Task ${taskId} exceeded its turn budget of ${this.agentOptions.maxTurns} turns`
       );
-      logStream.end();
+    }
 
-      throw error;
+    if (!outputSchema || resultMessage?.subtype !== 'success') {
+      return undefined;
+    }
+    if (resultMessage.structured_output !== undefined) {
+      return resultMessage.structured_output;
+    }
+    try {
+      return JSON.parse(resultMessage.result);
+    } catch {
+      return undefined;
     }
   }
 
   /**
-   * Validate that a state file from Claude is valid
+   * PreToolUse hook that refuses file edits outside the path scope
+   * A hook rather than canUseTool, because canUseTool is never consulted in bypassPermissions mode
    */
-  async validateStateFile(taskId: string): Promise<{ valid: boolean; error?: string }> {
-    try {
-      const state = await this.stateManager.loadState(taskId);
+  private guardPaths(scope: PathScope, session: SessionContext): HookCallback {
+    return async (input) => {
+      if (input.hook_event_name !== 'PreToolUse') {
+        return {};
+      }
 
-      if (!state) {
-        return {
-          valid: false,
-          error: 'State file does not exist',
-        };
+      const toolInput = input.tool_input as Record<string, unknown>;
+      const path = toolInput.file_path ?? toolInput.notebook_path;
+      const reason = typeof path === 'string' ? scope.check(path, session.cwd) : null;
+      if (typeof path !== 'string' || !reason) {
+        return {};
       }
 
-      // Parse with schema to validate structure
-      TaskStateSchema.parse(state);
+      this.denyPath(session, input.tool_name, path, reason);
 
-      return { valid: true };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
       return {
-        valid: false,
-        error: message,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: 'deny',
+          permissionDecisionReason: `${reason}. This task may only change files inside its path scope.`,
+        },
       };
+    };
+  }
+
+  /**
+   * Text of a tool result, whose content may be a string or a list of content blocks
+   */
+  private getResultText(content: unknown): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content
+        .filter((c: unknown): c is { type: 'text'; text: string } =>
+          typeof c === 'object' && c !== null && 'type' in c && c.type === 'text'
+        )
+        .map((c) => c.text)
+        .join('\n');
+    }
+    return '';
+  }
+
+  /**
+   * Extract cost and token counts from a result message
+   */
+  private getUsage(message: SDKResultMessage): SessionUsage {
+    const models = Object.values(message.modelUsage ?? {});
+    const sum = (pick: (model: (typeof models)[number]) => number) =>
+      models.reduce((total, model) => total + (pick(model) || 0), 0);
+
+    return {
+      costUsd: message.total_cost_usd,
+      turns: message.num_turns,
+      inputTokens: sum((m) => m.inputTokens),
+      outputTokens: sum((m) => m.outputTokens),
+      cacheReadInputTokens: sum((m) => m.cacheReadInputTokens),
+      cacheCreationInputTokens: sum((m) => m.cacheCreationInputTokens),
+    };
+  }
+
+  /**
+   * Estimate cost and token counts from the assistant messages streamed so far
+   * An API message is streamed as one SDK message per content block, so usage is kept per message ID
+   */
+  private estimateUsage(): SessionUsage {
+    const usage: SessionUsage = {
+      costUsd: 0,
+      turns: this.streamedUsage.size,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+    };
+
+    for (const { model, usage: message } of this.streamedUsage.values()) {
+      const [, price] = MODEL_PRICES.find(([key]) => model.includes(key))!;
+      const input = message.input_tokens || 0;
+      const output = message.output_tokens || 0;
+      const cacheRead = message.cache_read_input_tokens || 0;
+      const cacheWrite = message.cache_creation_input_tokens || 0;
+
+      usage.inputTokens += input;
+      usage.outputTokens += output;
+      usage.cacheReadInputTokens += cacheRead;
+      usage.cacheCreationInputTokens += cacheWrite;
+      usage.costUsd +=
+        (input * price.input + output * price.output + cacheRead * price.cacheRead + cacheWrite * price.cacheWrite) /
+        1_000_000;
+    }
+
+    return usage;
+  }
+
+  /**
+   * Turn an SDK message into log events (text, tool calls, tool results and the final result)
+   */
+  private emitMessage(message: SDKMessage, session: SessionContext): void {
+    const { emit, base } = session;
+
+    // System and stream_event messages (init, partial streaming events) are not logged
+    if (isAssistantMessage(message) && Array.isArray(message.message?.content)) {
+      for (const block of message.message.content) {
+        if (block.type === 'text') {
+          emit({ ...base(), kind: 'assistant_text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          this.toolNames.set(block.id, block.name);
+          emit({
+            ...base(),
+            kind: 'tool_call',
+            tool: block.name,
+            toolUseId: block.id,
+            input: block.input as Record<string, unknown>,
+          });
+        }
+      }
+    }
+
+    if (isUserMessage(message) && Array.isArray(message.message?.content)) {
+      for (const block of message.message.content) {
+        if (block.type !== 'tool_result') continue;
+
+        // block.content can be a string, array, or object
+        let output = this.getResultText(block.content);
+        if (!output && block.content && typeof block.content === 'object' && !Array.isArray(block.content)) {
+          output = JSON.stringify(block.content);
+        }
+
+        emit({
+          ...base(),
+          kind: 'tool_result',
+          tool: this.toolNames.get(block.tool_use_id),
+          toolUseId: block.tool_use_id,
+          isError: block.is_error || false,
+          output,
+        });
+      }
+    }
+
+    if (isResultMessage(message)) {
+      emit({
+        ...base(),
+        kind: 'result',
+        subtype: message.subtype,
+        durationMs: message.duration_ms,
+        turns: message.num_turns,
+        costUsd: message.total_cost_usd,
+        text: message.subtype === 'success' ? message.result : undefined,
+      });
     }
   }
 }
@@ -2,10 +2,34 @@ import { join } from 'path';
 import { readFileSync, existsSync } from 'fs';
 import { config } from 'dotenv';
 import { z } from 'zod';
+import {
+  AgentOptionsSchema,
+  GitHubConfigSchema,
+  ReviewConfigSchema,
+  SecretsConfigSchema,
+  ValidatorsConfigSchema,
+  WorktreeConfigSchema,
+} from './schemas.js';
 
 const ConfigSchema = z.object({
   branchPrefix: z.string().default('feature'),
-}).strict();
+  baseBranch: z.string().min(1).optional(),
+  baseRemote: z.string().min(1).optional(),
+  verify: z.array(z.string()).default([]),
+  validators: ValidatorsConfigSchema.default({}),
+  allowedPaths: z.array(z.string()).default([]),
+  forbiddenPaths: z.array(z.string()).default([]),
+  timeoutMinutes: z.number().positive().default(60),
+  maxCostUsd: z.number().positive().optional(),
+  maxRunCostUsd: z.number().positive().optional(),
+  resumeSessions: z.boolean().default(true),
+  worktree: WorktreeConfigSchema.default({}),
+  keepWorktreeOnFailure: z.boolean().default(false),
+  resolveConflicts: z.boolean().default(true),
+  github: GitHubConfigSchema.default({}),
+  review: ReviewConfigSchema.optional(),
+  secrets: SecretsConfigSchema.default({}),
+}).merge(AgentOptionsSchema).strict();
 
 export type Config = z.infer<typeof ConfigSchema>;
 
@@ -39,6 +63,29 @@ export class ConfigLoader {
     // Build config from RC file
     const config_data: Record<string, unknown> = {
       branchPrefix: rcConfig.branchPrefix,
+      baseBranch: rcConfig.baseBranch,
+      baseRemote: rcConfig.baseRemote,
+      verify: rcConfig.verify,
+      validators: rcConfig.validators,
+      allowedPaths: rcConfig.allowedPaths,
+      forbiddenPaths: rcConfig.forbiddenPaths,
+      timeoutMinutes: rcConfig.timeoutMinutes,
+      maxCostUsd: rcConfig.maxCostUsd,
+      maxRunCostUsd: rcConfig.maxRunCostUsd,
+      resumeSessions: rcConfig.resumeSessions,
+      worktree: rcConfig.worktree,
+      keepWorktreeOnFailure: rcConfig.keepWorktreeOnFailure,
+      resolveConflicts: rcConfig.resolveConflicts,
+      github: rcConfig.github,
+      review: rcConfig.review,
+      secrets: rcConfig.secrets,
+      model: rcConfig.model,
+      fallbackModel: rcConfig.fallbackModel,
+      maxTurns: rcConfig.maxTurns,
+      allowedTools: rcConfig.allowedTools,
+      disallowedTools: rcConfig.disallowedTools,
+      permissionMode: rcConfig.permissionMode,
+      appendSystemPrompt: rcConfig.appendSystemPrompt,
     };
 
     // Remove undefined values
@@ -0,0 +1,86 @@
+import { Task } from './types.js';
+
+/**
+ * Dependency graph built from task `dependsOn` frontmatter
+ * Validates prerequisites up front and provides a dependency-respecting execution order
+ */
+export class DependencyGraph {
+  private tasks: Map<string, Task>;
+  private order: string[];
+
+  constructor(tasks: Task[]) {
+    this.tasks = new Map(tasks.map((task) => [task.id, task]));
+    this.validateReferences();
+    this.order = this.topologicalSort(tasks);
+  }
+
+  /**
+   * Get the IDs of the tasks that must complete before this task can start
+   */
+  getDependencies(taskId: string): string[] {
+    return this.tasks.get(taskId)?.dependsOn ?? [];
+  }
+
+  /**
+   * Get tasks in an order where every task comes after its prerequisites
+   * Ties are broken by the original (filename) order
+   */
+  getExecutionOrder(): Task[] {
+    return this.order.map((id) => this.tasks.get(id)!);
+  }
+
+  /**
+   * Ensure every dependency refers to a known task
+   */
+  private validateReferences(): void {
+    const problems: string[] = [];
+
+    for (const task of this.tasks.values()) {
+      for (const depId of task.dependsOn ?? []) {
+        if (depId === task.id) {
+          problems.push(`${task.id} depends on itself`);
+        } else if (!this.tasks.has(depId)) {
+          problems.push(`${task.id} depends on unknown task "${depId}"`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid task dependencies:\n  - ${problems.join('\n  - ')}`);
+    }
+  }
+
+  /**
+   * Depth-first topological sort that reports the first cycle it finds
+   */
+  private topologicalSort(tasks: Task[]): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (taskId: string): void => {
+      if (visited.has(taskId)) return;
+
+      const cycleStart = visiting.indexOf(taskId);
+      if (cycleStart !== -1) {
+        const cycle = [...visiting.slice(cycleStart), taskId];
+        throw new Error(`Circular task dependency: ${cycle.join(' -> ')}`);
+      }
+
+      visiting.push(taskId);
+      for (const depId of this.getDependencies(taskId)) {
+        visit(depId);
+      }
+      visiting.pop();
+
+      visited.add(taskId);
+      order.push(taskId);
+    };
+
+    for (const task of tasks) {
+      visit(task.id);
+    }
+
+    return order;
+  }
+}
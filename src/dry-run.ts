@@ -0,0 +1,56 @@
+import { cp, mkdtemp } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { execa } from 'execa';
+
+// What a dry run needs from .claudefather besides the committed tree: tasks, settings and progress so far
+const COPIED_PATHS = ['tasks', 'state', 'history', '.claudefatherrc'];
+
+/**
+ * Throwaway copy of the project for `start --dry-run`
+ * A clone of the repository (with all local branches) plus the project's tasks, settings and
+ * state, so a dry run can create branches, worktrees and state without touching the project
+ */
+export class DryRunSandbox {
+  private projectDir: string;
+
+  constructor(projectDir: string) {
+    this.projectDir = projectDir;
+  }
+
+  /**
+   * Create the sandbox, returning its directory (kept afterwards for inspection)
+   */
+  async create(): Promise<string> {
+    const sandboxDir = await mkdtemp(join(tmpdir(), 'claudefather-dry-run-'));
+
+    try {
+      await execa('git', ['clone', '--quiet', this.projectDir, sandboxDir]);
+      // Local branches too, so base branches and earlier feature branches resolve as in the project
+      await execa('git', ['fetch', '--quiet', '--update-head-ok', 'origin', '+refs/heads/*:refs/heads/*'], {
+        cwd: sandboxDir,
+      });
+      // A clone doesn't inherit the project's own git settings, but sessions need its identity to commit
+      for (const key of ['user.name', 'user.email']) {
+        const { stdout } = await execa('git', ['config', key], { cwd: this.projectDir, reject: false });
+        if (stdout.trim()) {
+          await execa('git', ['config', key, stdout.trim()], { cwd: sandboxDir });
+        }
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to clone ${this.projectDir} for the dry run: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    for (const path of COPIED_PATHS) {
+      const source = join(this.projectDir, '.claudefather', path);
+      if (existsSync(source)) {
+        await cp(source, join(sandboxDir, '.claudefather', path), { recursive: true });
+      }
+    }
+
+    return sandboxDir;
+  }
+}
@@ -0,0 +1,144 @@
+import chalk from 'chalk';
+import { SecretScanner } from './secret-scanner.js';
+import { LogEvent } from './types.js';
+
+/**
+ * Serialize an event as one line of the JSONL log, redacting likely secrets
+ */
+export function formatEvent(event: LogEvent, redactor?: SecretScanner): string {
+  const line = JSON.stringify(event);
+  return `${redactor ? redactor.redact(line) : line}\n`;
+}
+
+/**
+ * Parse the lines of a JSONL log, skipping any that aren't complete events
+ */
+export function parseEvents(content: string): LogEvent[] {
+  const events: LogEvent[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (event && typeof event.kind === 'string' && typeof event.taskId === 'string') {
+        events.push(event as LogEvent);
+      }
+    } catch {
+      // A partially written last line, or not an event
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Renders log events the way Claude Code shows a session
+ * Used both for live output and by `claudefather log`, so the two look the same
+ */
+export class EventRenderer {
+  /**
+   * Text to print for an event (empty when there is nothing to show)
+   */
+  render(event: LogEvent): string {
+    switch (event.kind) {
+      case 'session_start': {
+        const rule = '='.repeat(80);
+        const attempt = event.attempt !== undefined ? ` (attempt ${event.attempt})` : '';
+        const resume = event.resumeSessionId ? `\nResuming session: ${event.resumeSessionId}` : '';
+        return chalk.blue(
+          `\n${rule}\nClaudefather ${event.label}: ${event.taskId}${attempt}\nStarted: ${event.timestamp}\n${event.options}${resume}\n${rule}\n`
+        );
+      }
+
+      case 'session_end': {
+        const color = event.outcome === 'completed' ? chalk.blue : event.outcome === 'interrupted' ? chalk.yellow : chalk.red;
+        const message = event.message ? `\n${event.message}` : '';
+        return color(`\n${'='.repeat(80)}\nProcess ${event.outcome}${message}\nEnded: ${event.timestamp}\n${'='.repeat(80)}\n`);
+      }
+
+      case 'assistant_text': {
+        const text = event.text.trim();
+        return text ? `\n⏺ ${text}\n` : '';
+      }
+
+      case 'tool_call':
+        return `\n⏺ ${event.tool}(${this.describeInput(event.input)})\n`;
+
+      case 'tool_result': {
+        if (event.isError) {
+          return `  ⎿  ❌ Error\n`;
+        }
+        // Show short results inline
+        if (event.output.length > 0 && event.output.length < 200) {
+          return `  ⎿  ${event.output.trim().split('\n')[0]}\n`;
+        }
+        return `  ⎿  ✓\n`;
+      }
+
+      case 'tool_denied':
+        return `  ⎿  ⛔ Denied: ${event.reason}\n`;
+
+      case 'result':
+        if (event.subtype === 'success') {
+          return `\n✓ Completed in ${(event.durationMs / 1000).toFixed(1)}s (${event.turns} turns, $${event.costUsd.toFixed(4)})\n`;
+        }
+        return `\n❌ Failed: ${event.subtype}\n`;
+
+      case 'validation': {
+        const stage = event.stage === 'review' ? 'Review' : 'Validation';
+        if (event.valid) {
+          return chalk.green(`\n✓ ${stage} passed\n`);
+        }
+        let text = chalk.yellow(`\n⚠️  ${stage} found ${event.issues.length} issue(s)\n`);
+        event.issues.forEach((issue) => {
+          text += chalk.yellow(`    - [${issue.type}] ${issue.message}\n`);
+        });
+        return text;
+      }
+
+      case 'state_transition': {
+        const reason = event.reason ? chalk.gray(`\n   ${event.reason}`) : '';
+        return chalk.cyan(`\n● ${event.from ?? 'NEW'} → ${event.to}`) + reason + '\n';
+      }
+    }
+  }
+
+  /**
+   * Whether an event reports something going wrong (used by `log --errors`)
+   */
+  isError(event: LogEvent): boolean {
+    switch (event.kind) {
+      case 'tool_result':
+        return event.isError;
+      case 'tool_denied':
+        return true;
+      case 'result':
+        return event.subtype !== 'success';
+      case 'validation':
+        return !event.valid;
+      case 'session_end':
+        return event.outcome !== 'completed';
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * The main argument of a tool call, shown in parentheses
+   */
+  private describeInput(input: Record<string, unknown>): string {
+    if (typeof input.file_path === 'string') {
+      return input.file_path;
+    } else if (typeof input.command === 'string') {
+      return input.command;
+    } else if (typeof input.pattern === 'string') {
+      return `"${input.pattern}"`;
+    } else if (typeof input.description === 'string') {
+      return input.description;
+    } else if (typeof input.prompt === 'string') {
+      const p = input.prompt;
+      return p.length > 60 ? p.substring(0, 60) + '...' : p;
+    }
+    return '';
+  }
+}
@@ -0,0 +1,114 @@
+import { link, readFile, rename, unlink, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+
+const RETRY_INTERVAL_MS = 50;
+
+/**
+ * Write a file atomically: write a temp file next to it, then rename over the target
+ * Readers never see a half-written file, and concurrent writers never interleave
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await writeFile(tempPath, content, 'utf-8');
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Exclusive lock backed by a lock file containing the owner's pid
+ * Locks left behind by processes that no longer exist are treated as stale and removed
+ */
+export class FileLock {
+  private lockPath: string;
+  private held = false;
+
+  constructor(lockPath: string) {
+    this.lockPath = lockPath;
+  }
+
+  /**
+   * Take the lock if it is free, returning false if another live process holds it
+   */
+  async tryAcquire(): Promise<boolean> {
+    await mkdir(dirname(this.lockPath), { recursive: true });
+
+    // Write the pid to a temp file and hard-link it into place, so the lock file never exists
+    // without its owner (an empty lock would look stale to another acquirer)
+    const tempPath = `${this.lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(tempPath, String(process.pid), 'utf-8');
+    try {
+      await link(tempPath, this.lockPath);
+      this.held = true;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    } finally {
+      await unlink(tempPath).catch(() => undefined);
+    }
+
+    const owner = await this.getOwner();
+    if (owner !== null && this.isAlive(owner)) {
+      return false;
+    }
+
+    // Owner is gone (or the file is unreadable) - clear the stale lock and try once more
+    await unlink(this.lockPath).catch(() => undefined);
+    return this.tryAcquire();
+  }
+
+  /**
+   * Wait for the lock, polling until it is free or the timeout passes
+   */
+  async acquire(timeoutMs: number = 30000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (!(await this.tryAcquire())) {
+      if (Date.now() >= deadline) {
+        const owner = await this.getOwner();
+        throw new Error(`Timed out waiting for lock ${this.lockPath}${owner !== null ? ` (held by pid ${owner})` : ''}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Release the lock if this instance holds it
+   */
+  async release(): Promise<void> {
+    if (!this.held) return;
+
+    this.held = false;
+    await unlink(this.lockPath).catch(() => undefined);
+  }
+
+  /**
+   * Pid of the process holding the lock, or null if there is none
+   */
+  async getOwner(): Promise<number | null> {
+    try {
+      const pid = parseInt(await readFile(this.lockPath, 'utf-8'), 10);
+      return Number.isNaN(pid) ? null : pid;
+    } catch {
+      return null;
+    }
+  }
+
+  private isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { execa } from 'execa';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { AddedLine, DiffFile, TaskDiff, TaskState, ValidationIssue } from './types.js';
+
+// Where the supervisor and the session keep bookkeeping inside a worktree (see ALWAYS_ALLOWED in path-scope.ts)
+const BOOKKEEPING_DIRS = ['.claudefather/state', '.claudefather/logs'];
+
+/**
+ * What the supervisor expects the worktree to look like
+ */
+export interface ExpectedGitState {
+  branch: string; // Feature branch created for the task
+  baseSha?: string; // Commit the task's worktree started from
+}
+
+/**
+ * Verifies the git state Claude reported against the real repository
+ * Runs git commands in the task's worktree instead of trusting the state file
+ */
+export class GitVerifier {
+  private worktreePath: string;
+
+  constructor(worktreePath: string) {
+    this.worktreePath = worktreePath;
+  }
+
+  /**
+   * Compare the reported state with the worktree and report each mismatch
+   */
+  async verify(state: TaskState, expected: ExpectedGitState): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+
+    issues.push(...(await this.verifyNoOperationInProgress()));
+    issues.push(...(await this.verifyBranch(state, expected.branch)));
+    issues.push(...(await this.verifyCommits(state)));
+    issues.push(...(await this.verifyClean()));
+
+    if (expected.baseSha) {
+      issues.push(...(await this.verifyFilesChanged(state, expected.baseSha)));
+    }
+
+    return issues;
+  }
+
+  /**
+   * No rebase or merge may be left unfinished
+   */
+  private async verifyNoOperationInProgress(): Promise<ValidationIssue[]> {
+    const operations: Array<[string, string]> = [
+      ['rebase-merge', 'A rebase is still in progress (finish it with `git rebase --continue`)'],
+      ['rebase-apply', 'A rebase is still in progress (finish it with `git rebase --continue`)'],
+      ['MERGE_HEAD', 'A merge is still in progress (conclude it with `git commit`)'],
+    ];
+
+    for (const [gitPath, message] of operations) {
+      const path = (await this.git(['rev-parse', '--git-path', gitPath])).trim();
+      if (existsSync(resolve(this.worktreePath, path))) {
+        return [{ type: 'git_inconsistency', message }];
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * The reported branch and the worktree's current branch must be the task's feature branch
+   */
+  private async verifyBranch(state: TaskState, expectedBranch: string): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+
+    if (state.branch && state.branch !== expectedBranch) {
+      issues.push({
+        type: 'git_inconsistency',
+        message: `State reports branch "${state.branch}" but the task's branch is "${expectedBranch}"`,
+      });
+    }
+
+    const currentBranch = (await this.git(['branch', '--show-current'])).trim();
+    if (currentBranch !== expectedBranch) {
+      issues.push({
+        type: 'git_inconsistency',
+        message: `Worktree is on "${currentBranch || 'detached HEAD'}" instead of "${expectedBranch}"`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reported commit SHAs must exist, and the last one must be the branch HEAD
+   */
+  private async verifyCommits(state: TaskState): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const claimed = [state.gitStatus.lastCommitSha, state.commitSha].filter(
+      (sha, i, all): sha is string => !!sha && all.indexOf(sha) === i
+    );
+
+    for (const sha of claimed) {
+      if (!(await this.commitExists(sha))) {
+        issues.push({
+          type: 'git_inconsistency',
+          message: `Commit ${sha} does not exist in the repository`,
+        });
+      }
+    }
+
+    const head = (await this.git(['rev-parse', 'HEAD'])).trim();
+    const lastCommitSha = state.gitStatus.lastCommitSha;
+    if (lastCommitSha && (await this.commitExists(lastCommitSha)) && !head.startsWith(lastCommitSha)) {
+      issues.push({
+        type: 'git_inconsistency',
+        message: `State reports last commit ${lastCommitSha} but the branch HEAD is ${head.substring(0, 12)}`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * The worktree must have no uncommitted changes (ignoring claudefather's own files)
+   */
+  private async verifyClean(): Promise<ValidationIssue[]> {
+    // Untracked directories are listed file by file, so a new state directory isn't reported as `.claudefather/`
+    const stdout = await this.git(['status', '--porcelain', '--untracked-files=all']);
+    const dirty = stdout
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => line.substring(3))
+      .filter((path) => !this.isBookkeepingPath(path));
+
+    if (dirty.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        type: 'git_inconsistency',
+        message: `Worktree has uncommitted changes: ${dirty.join(', ')}`,
+      },
+    ];
+  }
+
+  /**
+   * filesChanged must match the files actually changed since the base commit
+   */
+  private async verifyFilesChanged(state: TaskState, baseSha: string): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const stdout = await this.git(['diff', '--name-only', `${baseSha}...HEAD`]);
+    const actual = new Set(
+      stdout
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((path) => path && !this.isBookkeepingPath(path))
+    );
+    const claimed = new Set(state.filesChanged.filter((path) => !this.isBookkeepingPath(path)));
+
+    const unreported = [...actual].filter((path) => !claimed.has(path));
+    const unchanged = [...claimed].filter((path) => !actual.has(path));
+
+    if (unreported.length > 0) {
+      issues.push({
+        type: 'git_inconsistency',
+        message: `Files changed on the branch but missing from filesChanged: ${unreported.join(', ')}`,
+      });
+    }
+
+    if (unchanged.length > 0) {
+      issues.push({
+        type: 'git_inconsistency',
+        message: `Files listed in filesChanged but not changed on the branch: ${unchanged.join(', ')}`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Collect the files and added lines changed on the branch since the base commit
+   */
+  async getDiff(baseSha: string): Promise<TaskDiff> {
+    const range = `${baseSha}...HEAD`;
+
+    const numstat = await this.git(['diff', '--numstat', '--no-renames', range]);
+    const files: DiffFile[] = [];
+    for (const line of numstat.split('\n')) {
+      const [additions, deletions, path] = line.split('\t');
+      if (!path || this.isBookkeepingPath(path)) continue;
+      files.push({
+        path,
+        // Binary files report "-" for both counts
+        additions: parseInt(additions, 10) || 0,
+        deletions: parseInt(deletions, 10) || 0,
+      });
+    }
+
+    const patch = await this.git(['diff', '--unified=0', '--no-color', '--no-renames', range]);
+    const addedLines: AddedLine[] = [];
+    let currentPath: string | null = null;
+    let lineNumber = 0;
+    let previous = '';
+    for (const line of patch.split('\n')) {
+      const isHeader = line.startsWith('+++ ') && previous.startsWith('--- ');
+      previous = line;
+
+      if (isHeader) {
+        const path = line.substring(4).replace(/^b\//, '');
+        currentPath = path === '/dev/null' || this.isBookkeepingPath(path) ? null : path;
+      } else if (line.startsWith('@@')) {
+        const match = line.match(/\+(\d+)/);
+        lineNumber = match ? parseInt(match[1], 10) : 0;
+      } else if (line.startsWith('+') && currentPath) {
+        addedLines.push({ path: currentPath, line: lineNumber, text: line.substring(1) });
+        lineNumber++;
+      }
+    }
+
+    return { baseSha, files, addedLines };
+  }
+
+  /**
+   * Full patch of the task branch since the base commit (supervisor files excluded)
+   * Patches longer than maxChars are cut off with a note
+   */
+  async getPatch(baseSha: string, maxChars: number = 100_000): Promise<string> {
+    const patch = await this.git(['diff', '--no-color', `${baseSha}...HEAD`, '--', '.', ':(exclude).claudefather']);
+    if (patch.length <= maxChars) {
+      return patch;
+    }
+
+    return `${patch.substring(0, maxChars)}\n\n[... diff truncated after ${maxChars} characters; read the changed files for the rest ...]\n`;
+  }
+
+  // ============================================================================
+  // Git helpers
+  // ============================================================================
+
+  private async commitExists(sha: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', `${sha}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Claudefather's own files in the worktree (the state file and logs), never part of the task's changes
+   * Everything else under .claudefather, such as templates, counts like any other file
+   */
+  private isBookkeepingPath(path: string): boolean {
+    return BOOKKEEPING_DIRS.some((dir) => path === dir || path.startsWith(`${dir}/`));
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execa('git', args, { cwd: this.worktreePath });
+    return stdout;
+  }
+}
@@ -0,0 +1,306 @@
+import { Octokit } from '@octokit/rest';
+import { execa } from 'execa';
+import type { GitHubConfig } from './schemas.js';
+import { PullRequestInfo, ReviewFeedback, ReviewThread } from './types.js';
+
+/**
+ * Owner and name of a GitHub repository
+ */
+export interface RepoRef {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * An issue with its comments, as imported into a task file
+ */
+export interface IssueDetails {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  labels: string[];
+  comments: Array<{ author: string; createdAt: string; body: string }>;
+}
+
+/**
+ * Fields for a new pull request
+ */
+export interface NewPullRequest {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  draft: boolean;
+  labels: string[];
+}
+
+// Check conclusions that count as failures
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'cancelled', 'action_required'];
+
+// Review threads aren't exposed by the REST API, including whether they are resolved
+const REVIEW_THREADS_QUERY = `
+  query ($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        headRefOid
+        reviewThreads(first: 100) {
+          nodes {
+            isResolved
+            comments(first: 100) {
+              nodes {
+                databaseId
+                path
+                line
+                body
+                author {
+                  login
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      headRefOid: string;
+      reviewThreads: {
+        nodes: Array<{
+          isResolved: boolean;
+          comments: {
+            nodes: Array<{
+              databaseId: number;
+              path: string;
+              line: number | null;
+              body: string;
+              author: { login: string } | null;
+            }>;
+          };
+        }>;
+      };
+    };
+  };
+}
+
+/**
+ * Thin wrapper around Octokit for the calls the supervisor makes
+ * The repository comes from the `github.repo` config, or is parsed from the remote's URL
+ */
+export class GitHubClient {
+  private octokit: Octokit;
+  private projectDir: string;
+  private config: GitHubConfig;
+  private repoRef?: RepoRef;
+
+  constructor(projectDir: string, config: GitHubConfig, token = process.env.GITHUB_TOKEN ?? process.env.GH_TOKEN) {
+    if (!token) {
+      throw new Error('GITHUB_TOKEN (or GH_TOKEN) must be set to use the GitHub integration');
+    }
+
+    this.projectDir = projectDir;
+    this.config = config;
+    this.octokit = new Octokit({
+      auth: token,
+      ...(config.apiBaseUrl ? { baseUrl: config.apiBaseUrl.replace(/\/$/, '') } : {}),
+    });
+  }
+
+  /**
+   * Repository the integration works against
+   */
+  async getRepo(): Promise<RepoRef> {
+    if (this.repoRef) return this.repoRef;
+
+    if (this.config.repo) {
+      const [owner, repo] = this.config.repo.split('/');
+      this.repoRef = { owner, repo };
+      return this.repoRef;
+    }
+
+    const result = await execa('git', ['remote', 'get-url', this.config.remote], { cwd: this.projectDir, reject: false });
+    if (result.exitCode !== 0) {
+      throw new Error(`Git remote "${this.config.remote}" does not exist (set github.repo or github.remote)`);
+    }
+
+    // Matches git@host:owner/repo.git, https://host/owner/repo and ssh://git@host/owner/repo.git
+    const match = result.stdout.trim().match(/[:/]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+    if (!match) {
+      throw new Error(`Cannot tell the GitHub repository from remote URL ${result.stdout.trim()} (set github.repo)`);
+    }
+
+    this.repoRef = { owner: match[1], repo: match[2] };
+    return this.repoRef;
+  }
+
+  /**
+   * The repository's default branch, used as the base of pull requests
+   */
+  async getDefaultBranch(): Promise<string> {
+    const { data } = await this.octokit.rest.repos.get({ ...(await this.getRepo()) });
+    return data.default_branch;
+  }
+
+  /**
+   * An open pull request by number, or null if it was closed or merged
+   */
+  async getOpenPullRequest(number: number): Promise<PullRequestInfo | null> {
+    const { data } = await this.octokit.rest.pulls.get({ ...(await this.getRepo()), pull_number: number });
+    if (data.state !== 'open') return null;
+
+    return { number: data.number, url: data.html_url, branch: data.head.ref, base: data.base.ref };
+  }
+
+  /**
+   * The open pull request whose head is the given branch, if any
+   */
+  async findOpenPullRequest(branch: string): Promise<PullRequestInfo | null> {
+    const repoRef = await this.getRepo();
+    const { data } = await this.octokit.rest.pulls.list({
+      ...repoRef,
+      head: `${repoRef.owner}:${branch}`,
+      state: 'open',
+    });
+    if (data.length === 0) return null;
+
+    const [pull] = data;
+    return { number: pull.number, url: pull.html_url, branch: pull.head.ref, base: pull.base.ref };
+  }
+
+  /**
+   * Open a pull request and label it
+   */
+  async createPullRequest(pullRequest: NewPullRequest): Promise<PullRequestInfo> {
+    const repoRef = await this.getRepo();
+    const { data } = await this.octokit.rest.pulls.create({
+      ...repoRef,
+      title: pullRequest.title,
+      body: pullRequest.body,
+      head: pullRequest.head,
+      base: pullRequest.base,
+      draft: pullRequest.draft,
+    });
+
+    if (pullRequest.labels.length > 0) {
+      await this.octokit.rest.issues.addLabels({ ...repoRef, issue_number: data.number, labels: pullRequest.labels });
+    }
+
+    return { number: data.number, url: data.html_url, branch: data.head.ref, base: data.base.ref };
+  }
+
+  /**
+   * Unresolved review threads on a pull request, and the checks that failed on its head commit
+   */
+  async getReviewFeedback(number: number): Promise<ReviewFeedback> {
+    const repoRef = await this.getRepo();
+    const { repository } = await this.octokit.graphql<ReviewThreadsResponse>(REVIEW_THREADS_QUERY, {
+      ...repoRef,
+      number,
+    });
+    const { headRefOid, reviewThreads } = repository.pullRequest;
+
+    const threads: ReviewThread[] = reviewThreads.nodes
+      .filter((thread) => !thread.isResolved && thread.comments.nodes.length > 0)
+      .map((thread) => {
+        const [first] = thread.comments.nodes;
+        return {
+          commentId: first.databaseId,
+          path: first.path,
+          line: first.line ?? undefined,
+          comments: thread.comments.nodes.map((comment) => ({
+            id: comment.databaseId,
+            author: comment.author?.login ?? 'ghost',
+            body: comment.body,
+          })),
+        };
+      });
+
+    return { headSha: headRefOid, threads, failedChecks: await this.getFailedChecks(headRefOid) };
+  }
+
+  /**
+   * Reply to a review thread, returning the new comment's ID
+   */
+  async replyToReviewComment(number: number, commentId: number, body: string): Promise<number> {
+    const { data } = await this.octokit.rest.pulls.createReplyForReviewComment({
+      ...(await this.getRepo()),
+      pull_number: number,
+      comment_id: commentId,
+      body,
+    });
+    return data.id;
+  }
+
+  /**
+   * Names of failed check runs and commit statuses on a commit
+   */
+  private async getFailedChecks(ref: string): Promise<string[]> {
+    const repoRef = await this.getRepo();
+    const [checks, statuses] = await Promise.all([
+      this.octokit.rest.checks.listForRef({ ...repoRef, ref, per_page: 100 }),
+      this.octokit.rest.repos.getCombinedStatusForRef({ ...repoRef, ref, per_page: 100 }),
+    ]);
+
+    return [
+      ...checks.data.check_runs
+        .filter((run) => run.conclusion && FAILED_CONCLUSIONS.includes(run.conclusion))
+        .map((run) => run.name),
+      ...statuses.data.statuses
+        .filter((status) => status.state === 'failure' || status.state === 'error')
+        .map((status) => status.context),
+    ];
+  }
+
+  /**
+   * Open issues with a label, with their comments (pull requests are skipped)
+   */
+  async listIssues(label: string): Promise<IssueDetails[]> {
+    const repoRef = await this.getRepo();
+    const issues = await this.octokit.paginate(this.octokit.rest.issues.listForRepo, {
+      ...repoRef,
+      labels: label,
+      state: 'open',
+      per_page: 100,
+    });
+
+    const details: IssueDetails[] = [];
+    for (const issue of issues.filter((item) => !item.pull_request)) {
+      const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+        ...repoRef,
+        issue_number: issue.number,
+        per_page: 100,
+      });
+
+      details.push({
+        number: issue.number,
+        title: issue.title,
+        body: issue.body ?? '',
+        url: issue.html_url,
+        labels: issue.labels.map((item) => (typeof item === 'string' ? item : item.name ?? '')).filter((name) => name),
+        comments: comments.map((comment) => ({
+          author: comment.user?.login ?? 'ghost',
+          createdAt: comment.created_at,
+          body: comment.body ?? '',
+        })),
+      });
+    }
+
+    return details;
+  }
+
+  /**
+   * Comment on an issue, optionally closing it
+   */
+  async commentOnIssue(number: number, body: string, close: boolean = false): Promise<void> {
+    const repoRef = await this.getRepo();
+    await this.octokit.rest.issues.createComment({ ...repoRef, issue_number: number, body });
+
+    if (close) {
+      await this.octokit.rest.issues.update({ ...repoRef, issue_number: number, state: 'closed', state_reason: 'completed' });
+    }
+  }
+}
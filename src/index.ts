@@ -3,9 +3,11 @@
 import { Command } from 'commander';
 import { AISupervisor } from './supervisor.js';
 import { TaskLoader } from './task-loader.js';
-import { writeFile, readdir, readFile } from 'fs/promises';
-import { watch } from 'fs';
-import { join, resolve, isAbsolute } from 'path';
+import { LogViewer } from './log-viewer.js';
+import { ScriptedRunner } from './scripted-runner.js';
+import { DryRunSandbox } from './dry-run.js';
+import { writeFile } from 'fs/promises';
+import { resolve, isAbsolute, join } from 'path';
 import chalk from 'chalk';
 
 const program = new Command();
@@ -19,6 +21,10 @@ program
   .command('start')
   .description('Start the supervisor and process all tasks')
   .option('-p, --parallel <number>', 'Number of parallel tasks to run (default: 5, use git worktrees)', '5')
+  .option('--max-cost <usd>', 'Stop the run once sessions have spent this many USD (overrides maxRunCostUsd)')
+  .option('--fresh', 'Delete existing feature branches and worktrees of tasks that run instead of continuing them')
+  .option('--dry-run', 'Play scripted sessions instead of running Claude, in a throwaway copy of the project')
+  .option('--scenarios <dir>', 'Directory of scripted sessions for --dry-run (default: .claudefather/scenarios)')
   .action(async (options, command) => {
     try {
       const globalOpts = command.parent.opts();
@@ -30,8 +36,40 @@ program
         process.exit(1);
       }
 
-      const supervisor = new AISupervisor(projectDir, parallelCount);
-      await supervisor.run();
+      let maxRunCostUsd: number | undefined;
+      if (options.maxCost !== undefined) {
+        maxRunCostUsd = parseFloat(options.maxCost);
+        if (!Number.isFinite(maxRunCostUsd) || maxRunCostUsd <= 0) {
+          console.error(chalk.red('Error: --max-cost must be a positive number'));
+          process.exit(1);
+        }
+      }
+
+      if (options.scenarios && !options.dryRun) {
+        console.error(chalk.red('Error: --scenarios only applies with --dry-run'));
+        process.exit(1);
+      }
+
+      if (!options.dryRun) {
+        const supervisor = new AISupervisor(projectDir, parallelCount, { maxRunCostUsd });
+        await supervisor.run({ fresh: options.fresh });
+        return;
+      }
+
+      // Dry run: scripted sessions in a sandbox clone, so nothing in the project changes
+      const scenarioDir = options.scenarios
+        ? resolve(options.scenarios)
+        : join(resolve(projectDir), '.claudefather', 'scenarios');
+      const sandboxDir = await new DryRunSandbox(resolve(projectDir)).create();
+      console.log(chalk.blue(`🧪 Dry run in ${sandboxDir} (scenarios: ${scenarioDir})`));
+
+      const supervisor = new AISupervisor(sandboxDir, parallelCount, {
+        maxRunCostUsd,
+        createRunner: ScriptedRunner.factory(scenarioDir),
+        dryRun: true,
+      });
+      await supervisor.run({ fresh: options.fresh });
+      console.log(chalk.gray(`Dry run sandbox kept for inspection: claudefather --project-dir ${sandboxDir} status`));
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
       process.exit(1);
@@ -109,6 +147,172 @@ Make sure to commit your work on a feature branch and do not push.
     }
   });
 
+/**
+ * Resume command - continue a task's previous agent session
+ */
+program
+  .command('resume <taskId>')
+  .description("Continue a task's previous agent session with the latest feedback")
+  .option('-m, --message <text>', 'Additional guidance to send to the agent')
+  .action(async (taskId, options, command) => {
+    try {
+      const globalOpts = command.parent.opts();
+      const projectDir = globalOpts.projectDir || '.';
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.resumeTask(taskId, options.message);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Address-review command - act on pull request review comments and failed checks
+ */
+program
+  .command('address-review <taskId>')
+  .description("Run a new attempt that addresses unresolved review comments and failed checks on the task's PR")
+  .option('-w, --watch', 'Keep polling the PR for new feedback until it is closed or merged')
+  .option('-i, --interval <minutes>', 'Polling interval in watch mode', '5')
+  .action(async (taskId, options, command) => {
+    try {
+      const globalOpts = command.parent.opts();
+      const projectDir = globalOpts.projectDir || '.';
+      const intervalMinutes = parseFloat(options.interval);
+
+      if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+        console.error(chalk.red('Error: --interval must be a positive number'));
+        process.exit(1);
+      }
+
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.addressReview(taskId, { watch: options.watch, intervalMinutes });
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * History command - show every attempt at a task
+ */
+program
+  .command('history <taskId>')
+  .description('Show the recorded attempts for a task')
+  .option('--json', 'Print the raw attempt records as JSON')
+  .action(async (taskId, options, command) => {
+    try {
+      const globalOpts = command.parent.opts();
+      const projectDir = globalOpts.projectDir || '.';
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.getHistory(taskId, options.json);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Integrate command - merge completed task branches into one branch
+ */
+program
+  .command('integrate')
+  .description('Merge every VERIFIED_COMPLETE task branch into an integration branch, in dependency order')
+  .requiredOption('--into <branch>', 'Integration branch to merge into (created if missing)')
+  .option('--from <ref>', 'Start point for a new integration branch (default: baseBranch or HEAD)')
+  .option('--verify', 'Run the configured verify commands after each merge')
+  .action(async (options, command) => {
+    try {
+      const globalOpts = command.parent.opts();
+      const projectDir = globalOpts.projectDir || '.';
+      const supervisor = new AISupervisor(projectDir);
+      const results = await supervisor.integrate({ into: options.into, from: options.from, verify: options.verify });
+
+      if (results.some((r) => r.outcome !== 'merged' && r.outcome !== 'already_integrated')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Import command group - create task files from other sources
+ */
+const importCommand = program.command('import').description('Import tasks from other sources');
+
+importCommand
+  .command('github')
+  .description('Create or update task files from open GitHub issues with a label')
+  .requiredOption('-l, --label <label>', 'Import open issues with this label')
+  .option('-r, --repo <owner/name>', 'Repository to import from (default: github.repo or the remote)')
+  .action(async (options, command) => {
+    try {
+      const projectDir = command.optsWithGlobals().projectDir || '.';
+
+      if (options.repo && !/^[^/\s]+\/[^/\s]+$/.test(options.repo)) {
+        console.error(chalk.red('Error: --repo must look like owner/name'));
+        process.exit(1);
+      }
+
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.importGitHubIssues({ label: options.label, repo: options.repo });
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Worktrees command group - inspect and clean up task worktrees
+ */
+const worktrees = program.command('worktrees').description('Inspect and clean up task worktrees');
+
+worktrees
+  .command('list')
+  .description('List task worktrees with status, branch, age and uncommitted changes')
+  .action(async (_options, command) => {
+    try {
+      const projectDir = command.optsWithGlobals().projectDir || '.';
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.listWorktrees();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+worktrees
+  .command('open <taskId>')
+  .description("Print the path of a task's worktree")
+  .action(async (taskId, _options, command) => {
+    try {
+      const projectDir = command.optsWithGlobals().projectDir || '.';
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.openWorktree(taskId);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+worktrees
+  .command('clean')
+  .description('Remove worktrees of completed tasks and orphaned worktrees')
+  .option('--all', 'Remove every task worktree')
+  .option('--force', 'Also remove worktrees with uncommitted changes')
+  .action(async (options, command) => {
+    try {
+      const projectDir = command.optsWithGlobals().projectDir || '.';
+      const supervisor = new AISupervisor(projectDir);
+      await supervisor.cleanWorktrees({ all: options.all, force: options.force });
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 /**
  * Reset command - reset a task to pending state
  */
@@ -150,106 +354,32 @@ program
   .description('Show latest or specific task logs')
   .option('-t, --task <id>', 'Specific task ID to view')
   .option('-f, --follow', 'Follow log in real-time (like tail -f)')
-  .option('-n, --lines <num>', 'Show last N lines', '50')
+  .option('-n, --lines <num>', 'Show last N events (lines, for plain logs)', '50')
+  .option('--tool <name>', 'Only show calls to and results of this tool (e.g. Bash)')
+  .option('--errors', 'Only show failed tool calls, denials, failed validations and failed sessions')
+  .option('--attempt <n>', 'Only show events of this attempt')
+  .option('--json', 'Print the raw events as JSON lines')
   .action(async (options, command) => {
     try {
       const globalOpts = command.parent.opts();
       const projectDirOption = globalOpts.projectDir || '.';
       const projectDir = isAbsolute(projectDirOption) ? projectDirOption : resolve(process.cwd(), projectDirOption);
-      const logsDir = join(projectDir, '.claudefather', 'logs');
 
-      let logPath: string;
-
-      if (options.task) {
-        // Use specified task
-        logPath = join(logsDir, `${options.task}.log`);
-      } else {
-        // Find latest log file
-        try {
-          const files = await readdir(logsDir);
-          const logFiles = files.filter((f) => f.endsWith('.log'));
-
-          if (logFiles.length === 0) {
-            console.log(chalk.yellow('⚠️  No log files found'));
-            return;
-          }
-
-          // Just use the first one (last by default with fs operations)
-          logPath = join(logsDir, logFiles[logFiles.length - 1]);
-        } catch (error) {
-          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-            console.log(chalk.yellow('⚠️  No logs directory found. Run tasks first.'));
-          } else {
-            throw error;
-          }
-          return;
-        }
+      const attempt = options.attempt !== undefined ? parseInt(options.attempt, 10) : undefined;
+      if (attempt !== undefined && (isNaN(attempt) || attempt < 1)) {
+        console.error(chalk.red('Error: --attempt must be a positive number'));
+        process.exit(1);
       }
 
-      // Read and display log
-      const content = await readFile(logPath, 'utf-8');
-      const lines = content.split('\n');
-      const numLines = parseInt(options.lines, 10) || 50;
-
-      if (options.follow) {
-        // Watch mode
-        console.log(chalk.blue(`📋 Following: ${logPath}`));
-        console.log(chalk.gray('Press Ctrl+C to stop\n'));
-
-        let lastLine = lines.length;
-
-        // Print initial content
-        const startLine = Math.max(0, lines.length - numLines);
-        lines.slice(startLine).forEach((line) => {
-          if (line.trim()) console.log(line);
-        });
-
-        // Watch for changes
-        const watcher = watch(logPath, (eventType) => {
-          if (eventType === 'change') {
-            readFile(logPath, 'utf-8')
-              .then((newContent) => {
-                const newLines = newContent.split('\n');
-                // Print only new lines
-                for (let i = lastLine; i < newLines.length; i++) {
-                  if (newLines[i]?.trim()) {
-                    console.log(newLines[i]);
-                  }
-                }
-                lastLine = newLines.length;
-              })
-              .catch((err) => {
-                console.error(chalk.red('Error reading log:'), err);
-              });
-          }
-        });
-
-        process.on('SIGINT', () => {
-          watcher.close();
-          console.log(chalk.gray('\n👋 Stopped following logs'));
-          process.exit(0);
-        });
-      } else {
-        // Print last N lines
-        const startLine = Math.max(0, lines.length - numLines);
-        console.log(chalk.blue(`📋 Latest logs from: ${logPath}\n`));
-
-        if (startLine > 0) {
-          console.log(chalk.gray(`... (showing last ${numLines} of ${lines.length} lines) ...\n`));
-        }
-
-        lines.slice(startLine).forEach((line) => {
-          if (line.includes('[ERROR]') || line.includes('[STDERR]')) {
-            console.log(chalk.red(line));
-          } else if (line.includes('================')) {
-            console.log(chalk.blue(line));
-          } else if (line.includes('Started:') || line.includes('Ended:')) {
-            console.log(chalk.cyan(line));
-          } else {
-            console.log(line);
-          }
-        });
-      }
+      await new LogViewer(projectDir).show({
+        task: options.task,
+        lines: parseInt(options.lines, 10) || 50,
+        tool: options.tool,
+        errors: options.errors,
+        attempt,
+        json: options.json,
+        follow: options.follow,
+      });
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
       process.exit(1);
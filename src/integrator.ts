@@ -0,0 +1,245 @@
+import { execa } from 'execa';
+import chalk from 'chalk';
+import { MergeConflict, Task, ValidationIssue } from './types.js';
+import type { Config } from './config-loader.js';
+import { StateManager } from './state-manager.js';
+import { WorktreeManager } from './worktree-manager.js';
+import { WorktreeBootstrap } from './worktree-bootstrap.js';
+import { VerifyRunner } from './verify-runner.js';
+
+// Log name used for integration output (setup and verify commands)
+const INTEGRATION_LOG = '_integration';
+
+/**
+ * What happened to one task's branch during integration
+ */
+export type IntegrationOutcome = 'merged' | 'already_integrated' | 'conflict' | 'verify_failed' | 'skipped';
+
+export interface IntegrationResult {
+  taskId: string;
+  branch: string;
+  outcome: IntegrationOutcome;
+  detail?: string;
+}
+
+export interface IntegrateOptions {
+  into: string; // Integration branch (created if it doesn't exist)
+  from?: string; // Start point for a new integration branch (defaults to baseBranch or HEAD)
+  verify?: boolean; // Run the project's verify commands after each merge
+}
+
+/**
+ * Merges the branches of completed tasks into an integration branch, in dependency order,
+ * inside a dedicated worktree. Tasks whose branches conflict (or fail verification once
+ * merged) are flagged in their state so the rest of the batch can still land together
+ */
+export class Integrator {
+  private config: Config;
+  private stateManager: StateManager;
+  private worktreeManager: WorktreeManager;
+  private projectDir: string;
+
+  constructor(projectDir: string, config: Config, stateManager: StateManager, worktreeManager: WorktreeManager) {
+    this.projectDir = projectDir;
+    this.config = config;
+    this.stateManager = stateManager;
+    this.worktreeManager = worktreeManager;
+  }
+
+  /**
+   * Merge every VERIFIED_COMPLETE task branch into the integration branch
+   * Tasks must already be in dependency order (see DependencyGraph.getExecutionOrder)
+   */
+  async integrate(tasks: Task[], options: IntegrateOptions): Promise<IntegrationResult[]> {
+    const commands = this.getVerifyCommands();
+    if (options.verify && commands.length === 0) {
+      console.log(chalk.yellow('⚠️  --verify given but no verify commands are configured'));
+    }
+
+    const startPoint = options.from ?? this.config.baseBranch;
+    const worktreePath = await this.worktreeManager.createIntegrationWorktree(
+      options.into,
+      startPoint ? await this.worktreeManager.resolveBaseRef(startPoint, options.from ? undefined : this.config.baseRemote) : undefined
+    );
+    console.log(chalk.gray(`   Worktree: ${worktreePath}`));
+
+    const results: IntegrationResult[] = [];
+    try {
+      if (options.verify && commands.length > 0) {
+        await this.prepare(worktreePath);
+      }
+
+      const landed = new Set<string>();
+      for (const task of tasks) {
+        const state = await this.stateManager.loadState(task.id);
+        if (state?.status !== 'VERIFIED_COMPLETE') {
+          continue;
+        }
+
+        const branch = this.worktreeManager.getFeatureBranchName(task.id, state.branchPrefix || this.config.branchPrefix);
+        const result = await this.integrateTask(task, branch, worktreePath, landed, options, commands);
+        results.push(result);
+
+        if (result.outcome === 'merged' || result.outcome === 'already_integrated') {
+          landed.add(task.id);
+        }
+        this.printResult(result);
+      }
+    } finally {
+      await this.worktreeManager.removeIntegrationWorktree().catch(() => undefined);
+    }
+
+    return results;
+  }
+
+  /**
+   * Merge one task branch, flagging the task if it conflicts or breaks verification
+   */
+  private async integrateTask(
+    task: Task,
+    branch: string,
+    worktreePath: string,
+    landed: Set<string>,
+    options: IntegrateOptions,
+    commands: string[]
+  ): Promise<IntegrationResult> {
+    const result = { taskId: task.id, branch };
+
+    // Its branch contains its prerequisites' commits, so it can't land without them
+    const missing = (task.dependsOn ?? []).filter((id) => !landed.has(id));
+    if (missing.length > 0) {
+      return { ...result, outcome: 'skipped', detail: `prerequisite(s) not integrated: ${missing.join(', ')}` };
+    }
+
+    if (!(await this.succeeds(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], worktreePath))) {
+      return { ...result, outcome: 'skipped', detail: `branch ${branch} does not exist` };
+    }
+
+    if (await this.succeeds(['merge-base', '--is-ancestor', branch, 'HEAD'], worktreePath)) {
+      return { ...result, outcome: 'already_integrated' };
+    }
+
+    if (!(await this.succeeds(['merge', '--no-ff', '--no-edit', branch], worktreePath))) {
+      const { stdout } = await execa('git', ['diff', '--name-only', '--diff-filter=U'], { cwd: worktreePath });
+      const files = stdout.split('\n').filter((file) => file.trim());
+      await execa('git', ['merge', '--abort'], { cwd: worktreePath }).catch(() => undefined);
+
+      await this.flagTask(task.id, 'MERGE_CONFLICT_DETECTED', {
+        blockerContext: `Branch ${branch} conflicts with ${options.into} in: ${files.join(', ') || 'unknown files'}`,
+        conflict: { into: options.into, files },
+      });
+      return { ...result, outcome: 'conflict', detail: files.join(', ') };
+    }
+
+    if (options.verify && commands.length > 0) {
+      const issues = await this.verify(task.id, worktreePath, commands);
+      if (issues.length > 0) {
+        // Drop the merge so the following tasks are verified without it
+        await execa('git', ['reset', '--hard', 'ORIG_HEAD'], { cwd: worktreePath });
+
+        await this.flagTask(task.id, 'HUMAN_REVIEW_REQUIRED', {
+          blockerContext: `Verify commands failed after merging ${branch} into ${options.into}`,
+          validationIssues: issues,
+        });
+        return { ...result, outcome: 'verify_failed', detail: issues.map((issue) => issue.message).join('; ') };
+      }
+    }
+
+    return { ...result, outcome: 'merged' };
+  }
+
+  /**
+   * Run the verify commands in the integration worktree, logging their output
+   */
+  private async verify(taskId: string, worktreePath: string, commands: string[]): Promise<ValidationIssue[]> {
+    const runner = new VerifyRunner(worktreePath);
+    const issues: ValidationIssue[] = [];
+
+    for (const command of commands) {
+      const result = await runner.runCommand(command);
+      await this.stateManager.appendLog(
+        INTEGRATION_LOG,
+        `\n[${taskId}] $ ${command}\n${result.output}\n[exit code ${result.exitCode}]\n`
+      );
+
+      if (result.exitCode !== 0) {
+        issues.push({
+          type: 'exit_code_mismatch',
+          message: `\`${command}\` exited with code ${result.exitCode} after integration`,
+          output: result.output || undefined,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Run worktree setup (copy files, install dependencies) so verify commands can run
+   */
+  private async prepare(worktreePath: string): Promise<void> {
+    const bootstrap = new WorktreeBootstrap(this.projectDir, this.config.worktree);
+    if (!bootstrap.isConfigured()) return;
+
+    await this.stateManager.appendLog(
+      INTEGRATION_LOG,
+      `\n${'='.repeat(80)}\nIntegration setup\nStarted: ${new Date().toISOString()}\n${'='.repeat(80)}\n\n`
+    );
+    await bootstrap.run(worktreePath, (text) => this.stateManager.appendLog(INTEGRATION_LOG, text));
+  }
+
+  /**
+   * Move a completed task to a blocker status, keeping the rest of its state
+   */
+  private async flagTask(
+    taskId: string,
+    status: 'MERGE_CONFLICT_DETECTED' | 'HUMAN_REVIEW_REQUIRED',
+    details: { blockerContext: string; conflict?: MergeConflict; validationIssues?: ValidationIssue[] }
+  ): Promise<void> {
+    const state = await this.stateManager.loadState(taskId);
+    if (!state) return;
+
+    await this.stateManager.saveState({
+      ...state,
+      status,
+      ...details,
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Project-level acceptance commands (the `command` validator, or `verify`)
+   */
+  private getVerifyCommands(): string[] {
+    const command = this.config.validators.command;
+    if (command === false) return [];
+    return command ? command.commands : this.config.verify;
+  }
+
+  private printResult(result: IntegrationResult): void {
+    const detail = result.detail ? ` (${result.detail})` : '';
+
+    switch (result.outcome) {
+      case 'merged':
+        console.log(chalk.green(`   ✅ ${result.taskId}: merged ${result.branch}`));
+        break;
+      case 'already_integrated':
+        console.log(chalk.gray(`   ⏭  ${result.taskId}: already integrated`));
+        break;
+      case 'conflict':
+        console.log(chalk.red(`   ❌ ${result.taskId}: merge conflict${detail}`));
+        break;
+      case 'verify_failed':
+        console.log(chalk.red(`   ❌ ${result.taskId}: verify failed after merge${detail}`));
+        break;
+      case 'skipped':
+        console.log(chalk.yellow(`   ⚠️  ${result.taskId}: skipped${detail}`));
+        break;
+    }
+  }
+
+  private async succeeds(args: string[], cwd: string): Promise<boolean> {
+    const result = await execa('git', args, { cwd, reject: false });
+    return result.exitCode === 0;
+  }
+}
@@ -0,0 +1,107 @@
+import { readFile, writeFile } from 'fs/promises';
+import matter from 'gray-matter';
+import { GitHubClient, IssueDetails, RepoRef } from './github-client.js';
+import { TaskLoader } from './task-loader.js';
+
+// Marks comments the supervisor posts on issues, so they are not imported back into tasks
+export const CLAUDEFATHER_COMMENT_MARKER = '<!-- claudefather -->';
+
+/**
+ * What happened to one issue during an import
+ */
+export interface IssueImportResult {
+  issue: number;
+  taskId: string;
+  outcome: 'created' | 'updated' | 'unchanged';
+}
+
+/**
+ * Turns GitHub issues into task files
+ * Tasks are matched to issues by their `sourceIssue` frontmatter, so re-imports update them in place
+ */
+export class IssueImporter {
+  private taskLoader: TaskLoader;
+  private client: GitHubClient;
+
+  constructor(taskLoader: TaskLoader, client: GitHubClient) {
+    this.taskLoader = taskLoader;
+    this.client = client;
+  }
+
+  /**
+   * Create or update a task for each open issue with the label
+   */
+  async import(label: string): Promise<IssueImportResult[]> {
+    const repoRef = await this.client.getRepo();
+    const issues = await this.client.listIssues(label);
+
+    const tasksByIssue = new Map<string, { id: string; file: string; metadata: Record<string, unknown> }>();
+    for (const task of await this.taskLoader.loadTasks()) {
+      if (task.sourceIssue) {
+        tasksByIssue.set(task.sourceIssue, { id: task.id, file: task.file, metadata: task.metadata ?? {} });
+      }
+    }
+
+    const results: IssueImportResult[] = [];
+    for (const issue of issues) {
+      const sourceIssue = IssueImporter.formatSourceIssue(repoRef, issue.number);
+      // The import label only marks issues for the queue, so it isn't passed on to the PR
+      const labels = issue.labels.filter((name) => name !== label);
+      const body = this.renderBody(issue);
+      const existing = tasksByIssue.get(sourceIssue);
+
+      if (existing) {
+        // Keep frontmatter added by hand (verify, dependsOn, ...) and refresh what comes from the issue
+        const content = matter.stringify(body, { ...existing.metadata, sourceIssue, title: issue.title, labels });
+        if (content === (await readFile(existing.file, 'utf-8'))) {
+          results.push({ issue: issue.number, taskId: existing.id, outcome: 'unchanged' });
+          continue;
+        }
+
+        await writeFile(existing.file, content);
+        results.push({ issue: issue.number, taskId: existing.id, outcome: 'updated' });
+        continue;
+      }
+
+      const task = await this.taskLoader.createTask('auto', issue.title, `issue-${issue.number}`);
+      await writeFile(task.file, matter.stringify(body, { sourceIssue, title: issue.title, labels }));
+      results.push({ issue: issue.number, taskId: task.id, outcome: 'created' });
+    }
+
+    return results;
+  }
+
+  /**
+   * `owner/name#123`, the form stored in `sourceIssue` frontmatter
+   */
+  static formatSourceIssue(repoRef: RepoRef, number: number): string {
+    return `${repoRef.owner}/${repoRef.repo}#${number}`;
+  }
+
+  /**
+   * Split `owner/name#123` back into the repository and issue number
+   */
+  static parseSourceIssue(sourceIssue: string): { repo: string; number: number } | null {
+    const match = sourceIssue.match(/^([^/\s]+\/[^#\s]+)#(\d+)$/);
+    return match ? { repo: match[1], number: parseInt(match[2], 10) } : null;
+  }
+
+  /**
+   * Task description: the issue text followed by its comments
+   */
+  private renderBody(issue: IssueDetails): string {
+    let body = `# ${issue.title}\n\n`;
+    body += `Imported from ${issue.url}\n\n`;
+    body += issue.body.trim() ? `${issue.body.trim()}\n` : '(No description)\n';
+
+    const comments = issue.comments.filter((comment) => !comment.body.includes(CLAUDEFATHER_COMMENT_MARKER));
+    if (comments.length > 0) {
+      body += `\n## Comments\n`;
+      comments.forEach((comment) => {
+        body += `\n### ${comment.author} (${comment.createdAt})\n\n${comment.body.trim()}\n`;
+      });
+    }
+
+    return body;
+  }
+}
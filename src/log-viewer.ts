@@ -0,0 +1,242 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { existsSync, watch } from 'fs';
+import { join } from 'path';
+import chalk from 'chalk';
+import { EventRenderer, parseEvents } from './event-log.js';
+import { LogEvent } from './types.js';
+
+/**
+ * Which events `claudefather log` shows, and how
+ */
+export interface LogViewOptions {
+  task?: string; // Task ID (default: the most recently written log)
+  lines: number; // Show the last N events
+  tool?: string; // Only calls to and results of this tool
+  errors?: boolean; // Only events that report a failure
+  attempt?: number; // Only events of this attempt
+  json?: boolean; // Print raw events, one per line
+  follow?: boolean; // Keep printing new events as they are written
+}
+
+/**
+ * Shows task logs: structured event logs (.jsonl) rendered like live output,
+ * and plain logs (.log, e.g. worktree setup or integration output) as text
+ */
+export class LogViewer {
+  private logsDir: string;
+  private renderer = new EventRenderer();
+
+  constructor(projectDir: string) {
+    this.logsDir = join(projectDir, '.claudefather', 'logs');
+  }
+
+  /**
+   * Print the log selected by the options (and follow it with --follow)
+   */
+  async show(options: LogViewOptions): Promise<void> {
+    const logPath = await this.findLog(options.task);
+    if (!logPath) {
+      console.log(chalk.yellow(options.task ? `⚠️  No log found for task ${options.task}` : '⚠️  No log files found'));
+      return;
+    }
+
+    if (logPath.endsWith('.jsonl')) {
+      await this.showEvents(logPath, options);
+    } else {
+      if (options.tool || options.errors || options.attempt !== undefined || options.json) {
+        console.log(chalk.yellow('⚠️  This is a plain text log; --tool, --errors, --attempt and --json only apply to event logs\n'));
+      }
+      await this.showText(logPath, options);
+    }
+  }
+
+  /**
+   * The task's event log (or plain log), or else the most recently written log
+   */
+  private async findLog(taskId?: string): Promise<string | null> {
+    if (taskId) {
+      const candidates = [join(this.logsDir, `${taskId}.jsonl`), join(this.logsDir, `${taskId}.log`)];
+      return candidates.find((path) => existsSync(path)) ?? null;
+    }
+
+    let files: string[];
+    try {
+      files = (await readdir(this.logsDir)).filter((file) => file.endsWith('.jsonl') || file.endsWith('.log'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let latest: { path: string; mtimeMs: number } | null = null;
+    for (const file of files) {
+      const path = join(this.logsDir, file);
+      const { mtimeMs } = await stat(path);
+      if (!latest || mtimeMs > latest.mtimeMs) {
+        latest = { path, mtimeMs };
+      }
+    }
+    return latest?.path ?? null;
+  }
+
+  /**
+   * Render the last events of an event log that pass the filters
+   */
+  private async showEvents(logPath: string, options: LogViewOptions): Promise<void> {
+    const content = await readFile(logPath);
+    // Only complete lines are shown; --follow picks up from the start of a partially written one
+    let offset = content.lastIndexOf('\n') + 1;
+    const events = parseEvents(content.subarray(0, offset).toString('utf-8')).filter((event) =>
+      this.matches(event, options)
+    );
+    const shown = events.slice(Math.max(0, events.length - options.lines));
+
+    if (!options.json) {
+      console.log(chalk.blue(`📋 ${options.follow ? 'Following' : 'Latest events from'}: ${logPath}`));
+      if (shown.length < events.length) {
+        console.log(chalk.gray(`... (showing last ${shown.length} of ${events.length} events) ...`));
+      }
+      if (options.follow) {
+        console.log(chalk.gray('Press Ctrl+C to stop'));
+      }
+    }
+    shown.forEach((event) => this.print(event, options));
+
+    if (!options.follow) {
+      return;
+    }
+
+    // A change that arrives mid-read isn't dropped: it triggers another read once this one finishes
+    let reading = false;
+    let pending = false;
+    const readNew = async (): Promise<void> => {
+      if (reading) {
+        pending = true;
+        return;
+      }
+      reading = true;
+      pending = false;
+      try {
+        const updated = await readFile(logPath);
+        if (updated.length < offset) {
+          offset = 0; // The log was replaced
+        }
+        const end = updated.lastIndexOf('\n') + 1;
+        if (end > offset) {
+          parseEvents(updated.subarray(offset, end).toString('utf-8'))
+            .filter((event) => this.matches(event, options))
+            .forEach((event) => this.print(event, options));
+          offset = end;
+        }
+      } catch (error) {
+        console.error(chalk.red('Error reading log:'), error);
+      } finally {
+        reading = false;
+      }
+      if (pending) {
+        await readNew();
+      }
+    };
+
+    const watcher = watch(logPath, (eventType) => {
+      if (eventType === 'change') {
+        void readNew();
+      }
+    });
+
+    process.on('SIGINT', () => {
+      watcher.close();
+      if (!options.json) {
+        console.log(chalk.gray('\n👋 Stopped following logs'));
+      }
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Print the last lines of a plain text log, colouring banners and errors
+   */
+  private async showText(logPath: string, options: LogViewOptions): Promise<void> {
+    const lines = (await readFile(logPath, 'utf-8')).split('\n');
+    const startLine = Math.max(0, lines.length - options.lines);
+
+    if (options.follow) {
+      console.log(chalk.blue(`📋 Following: ${logPath}`));
+      console.log(chalk.gray('Press Ctrl+C to stop\n'));
+    } else {
+      console.log(chalk.blue(`📋 Latest logs from: ${logPath}\n`));
+      if (startLine > 0) {
+        console.log(chalk.gray(`... (showing last ${options.lines} of ${lines.length} lines) ...\n`));
+      }
+    }
+
+    lines.slice(startLine).forEach((line) => this.printLine(line));
+
+    if (!options.follow) {
+      return;
+    }
+
+    let lastLine = lines.length;
+    const watcher = watch(logPath, (eventType) => {
+      if (eventType === 'change') {
+        readFile(logPath, 'utf-8')
+          .then((newContent) => {
+            const newLines = newContent.split('\n');
+            // Print only new lines
+            for (let i = lastLine; i < newLines.length; i++) {
+              if (newLines[i]?.trim()) {
+                this.printLine(newLines[i]);
+              }
+            }
+            lastLine = newLines.length;
+          })
+          .catch((err) => {
+            console.error(chalk.red('Error reading log:'), err);
+          });
+      }
+    });
+
+    process.on('SIGINT', () => {
+      watcher.close();
+      console.log(chalk.gray('\n👋 Stopped following logs'));
+      process.exit(0);
+    });
+  }
+
+  private matches(event: LogEvent, options: LogViewOptions): boolean {
+    if (options.attempt !== undefined && event.attempt !== options.attempt) {
+      return false;
+    }
+    if (options.tool) {
+      const isTool = event.kind === 'tool_call' || event.kind === 'tool_result' || event.kind === 'tool_denied';
+      if (!isTool || event.tool !== options.tool) {
+        return false;
+      }
+    }
+    if (options.errors && !this.renderer.isError(event)) {
+      return false;
+    }
+    return true;
+  }
+
+  private print(event: LogEvent, options: LogViewOptions): void {
+    if (options.json) {
+      console.log(JSON.stringify(event));
+    } else {
+      process.stdout.write(this.renderer.render(event));
+    }
+  }
+
+  private printLine(line: string): void {
+    if (line.includes('[ERROR]') || line.includes('[STDERR]')) {
+      console.log(chalk.red(line));
+    } else if (line.includes('================')) {
+      console.log(chalk.blue(line));
+    } else if (line.includes('Started:') || line.includes('Ended:')) {
+      console.log(chalk.cyan(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
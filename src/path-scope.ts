@@ -0,0 +1,73 @@
+import { isAbsolute, relative, resolve } from 'path';
+import { minimatch } from 'minimatch';
+import type { Config } from './config-loader.js';
+import { Task } from './types.js';
+
+// Claude must always be able to write its state file
+const ALWAYS_ALLOWED = ['.claudefather/state/**'];
+
+/**
+ * Which paths a task may change, as globs relative to the repository root
+ * Forbidden paths win over allowed ones; without allowed paths everything else is in scope
+ */
+export class PathScope {
+  readonly allowed: string[];
+  readonly forbidden: string[];
+
+  constructor(allowed: string[] = [], forbidden: string[] = []) {
+    this.allowed = allowed;
+    this.forbidden = forbidden;
+  }
+
+  /**
+   * Task `allowedPaths` replace the project's; `forbiddenPaths` from both apply, plus the globs
+   * of the `forbiddenPaths` validator (whose task entry replaces the project's, like any validator)
+   */
+  static forTask(config: Pick<Config, 'allowedPaths' | 'forbiddenPaths' | 'validators'>, task: Task): PathScope {
+    const validator = task.validators?.forbiddenPaths ?? config.validators.forbiddenPaths;
+    return new PathScope(task.allowedPaths ?? config.allowedPaths, [
+      ...new Set([...config.forbiddenPaths, ...(task.forbiddenPaths ?? []), ...(validator ? validator.globs : [])]),
+    ]);
+  }
+
+  /**
+   * True when the scope doesn't restrict anything
+   */
+  isEmpty(): boolean {
+    return this.allowed.length === 0 && this.forbidden.length === 0;
+  }
+
+  /**
+   * Why a path may not be changed, or null if it is in scope
+   * Absolute paths are resolved against rootDir (the worktree)
+   */
+  check(path: string, rootDir: string = '.'): string | null {
+    const relativePath = relative(resolve(rootDir), resolve(rootDir, path));
+
+    if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      return this.allowed.length > 0 ? `"${path}" is outside the repository` : null;
+    }
+
+    if (ALWAYS_ALLOWED.some((glob) => this.matches(relativePath, glob))) {
+      return null;
+    }
+
+    const forbidden = this.forbidden.find((glob) => this.matches(relativePath, glob));
+    if (forbidden) {
+      return `"${relativePath}" must not be changed (matches forbidden path "${forbidden}")`;
+    }
+
+    if (this.allowed.length > 0 && !this.allowed.some((glob) => this.matches(relativePath, glob))) {
+      return `"${relativePath}" is outside the task's allowed paths (${this.allowed.join(', ')})`;
+    }
+
+    return null;
+  }
+
+  /**
+   * A glob naming a directory (e.g. `.github`) also covers everything inside it
+   */
+  private matches(path: string, glob: string): boolean {
+    return minimatch(path, glob, { dot: true }) || minimatch(path, `${glob.replace(/\/$/, '')}/**`, { dot: true });
+  }
+}
@@ -1,17 +1,20 @@
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { Task, TaskState, ValidationResult } from './types.js';
+import { RebaseConflict, ReviewFeedback, Task, TaskState, ValidationResult } from './types.js';
+import { PathScope } from './path-scope.js';
 
 /**
  * Builds prompts with system instructions and context
  */
 export class PromptBuilder {
   private systemPromptPath: string;
+  private reviewPromptPath: string;
 
   constructor(projectDir: string = '.') {
     const templatesDir = join(projectDir, '.claudefather', 'templates');
     this.systemPromptPath = join(templatesDir, 'system-prompt.md');
+    this.reviewPromptPath = join(templatesDir, 'review-prompt.md');
   }
 
   /**
@@ -21,7 +24,9 @@ export class PromptBuilder {
     task: Task,
     previousState?: TaskState,
     validation?: ValidationResult,
-    branchPrefix: string = 'feature'
+    branchPrefix: string = 'feature',
+    verifyCommands: string[] = [],
+    pathScope?: PathScope
   ): Promise<string> {
     // Build system prompt (core instructions + optional project template)
     let systemPrompt = await this.buildSystemPrompt();
@@ -32,7 +37,7 @@ export class PromptBuilder {
     let prompt = systemPrompt + '\n\n---\n\n[TASK ASSIGNMENT]\n\n';
     prompt += `Task ID: ${task.id}\n\n`;
     prompt += `IMPORTANT: You MUST use the exact Task ID "${task.id}" when:\n`;
-    prompt += `- Creating the branch: ${branchPrefix}/${task.id}\n`;
+    prompt += `- Committing: the supervisor created your branch ${branchPrefix}/${task.id}; stay on it\n`;
     prompt += `- Writing the state file: .claudefather/state/${task.id}.json\n`;
     prompt += `- Setting the taskId field in the JSON: "taskId": "${task.id}"\n`;
     prompt += `- Setting the branchPrefix field in the JSON: "branchPrefix": "${branchPrefix}"\n\n`;
@@ -41,28 +46,47 @@ export class PromptBuilder {
     if (task.metadata && Object.keys(task.metadata).length > 0) {
       prompt += `[TASK METADATA]\n\n`;
 
-      // Highlight PR creation requirement if present
-      if (task.metadata.createPr === true) {
-        prompt += `⚠️ **PR CREATION REQUIRED**: createPr = true\n`;
-        prompt += `This task REQUIRES creating a Pull Request on GitHub before marking complete.\n`;
-        if (task.metadata.title) {
-          prompt += `- PR Title: ${task.metadata.title}\n`;
-        }
-        if (task.metadata.labels && Array.isArray(task.metadata.labels)) {
-          prompt += `- PR Labels: ${task.metadata.labels.join(', ')}\n`;
-        }
-        prompt += `\n`;
+      // The supervisor opens the PR itself, so Claude only needs to know it will happen
+      if (task.createPr) {
+        prompt += `Pull request: the supervisor pushes your branch and opens a PR`;
+        prompt += task.title ? ` titled "${task.title}"` : '';
+        prompt += ` after your work is verified. Do not push or create a PR yourself.\n`;
+        prompt += `Your summary, assumptions and workarounds become the PR description.\n\n`;
       }
 
       // Include other metadata
       for (const [key, value] of Object.entries(task.metadata)) {
-        if (key !== 'createPr' && key !== 'title' && key !== 'labels') {
+        if (!['createPr', 'title', 'labels', 'verify', 'allowedPaths', 'forbiddenPaths'].includes(key)) {
           prompt += `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}\n`;
         }
       }
       prompt += '\n';
     }
 
+    // Tell Claude which acceptance commands the supervisor will run
+    if (verifyCommands.length > 0) {
+      prompt += `[ACCEPTANCE COMMANDS]\n\n`;
+      prompt += `After you report VERIFIED_COMPLETE, the supervisor runs these commands in your worktree.\n`;
+      prompt += `Every command must exit with code 0, so run them yourself before completing:\n`;
+      verifyCommands.forEach((command) => {
+        prompt += `- ${command}\n`;
+      });
+      prompt += '\n';
+    }
+
+    // Tell Claude which files it may change; edits outside the scope are refused
+    if (pathScope && !pathScope.isEmpty()) {
+      prompt += `[PATH SCOPE]\n\n`;
+      if (pathScope.allowed.length > 0) {
+        prompt += `Only change files matching: ${pathScope.allowed.join(', ')}\n`;
+      }
+      if (pathScope.forbidden.length > 0) {
+        prompt += `Never change files matching: ${pathScope.forbidden.join(', ')}\n`;
+      }
+      prompt += `Edits outside this scope are refused, and out-of-scope changes on the branch fail validation.\n`;
+      prompt += `If the task can't be done within it, report HUMAN_REVIEW_REQUIRED and explain in blockerContext.\n\n`;
+    }
+
     prompt += `---\n\n[TASK DESCRIPTION]\n\n${task.content}`;
 
     // Add retry context if this is a retry
@@ -73,6 +97,101 @@ export class PromptBuilder {
     return prompt;
   }
 
+  /**
+   * Build the prompt for a dedicated retry that resolves a conflicting task branch
+   * The supervisor has already started the rebase; Claude resolves it and re-verifies the task
+   */
+  async buildConflictPrompt(
+    task: Task,
+    conflict: RebaseConflict,
+    branchPrefix: string = 'feature',
+    verifyCommands: string[] = [],
+    pathScope?: PathScope
+  ): Promise<string> {
+    const branch = `${branchPrefix}/${task.id}`;
+    let prompt = await this.buildPrompt(task, undefined, undefined, branchPrefix, verifyCommands, pathScope);
+
+    prompt += `\n\n---\n\n[MERGE CONFLICT]\n\n`;
+    prompt += `This task was already implemented on ${branch}, but the branch no longer applies cleanly onto ${conflict.onto}.\n`;
+
+    if (conflict.files.length === 0) {
+      prompt += `The supervisor rebased ${branch} onto ${conflict.onto} without conflicts.\n`;
+      prompt += `Check that the task still works against the updated upstream code, fix anything that broke in new commits, `;
+      prompt += `and write your state file.\n`;
+      return prompt;
+    }
+
+    prompt += `The supervisor ran \`git rebase ${conflict.onto}\` in your worktree and it stopped with conflicts in:\n`;
+    conflict.files.forEach((file) => {
+      prompt += `- ${file}\n`;
+    });
+
+    if (conflict.upstreamCommits.length > 0) {
+      prompt += `\nUpstream commits on ${conflict.onto} that touch these files:\n`;
+      conflict.upstreamCommits.forEach((commit) => {
+        prompt += `- ${commit}\n`;
+      });
+    }
+
+    prompt += `\nTo resolve it:\n`;
+    prompt += `1. Resolve each conflict, keeping both the task's changes and the upstream changes\n`;
+    prompt += `2. \`git add\` the resolved files and run \`GIT_EDITOR=true git rebase --continue\`; repeat until the rebase finishes and ${branch} is checked out again\n`;
+    prompt += `3. Run the acceptance commands and fix anything the upstream changes broke\n`;
+    prompt += `4. Write your state file. If the conflict can't be resolved without a decision from a human, report MERGE_CONFLICT_DETECTED and explain in blockerContext\n\n`;
+    prompt += `Do not run \`git rebase --abort\` and do not replace the rebase with a merge.\n`;
+
+    return prompt;
+  }
+
+  /**
+   * Build the next user turn for a resumed session
+   * The session already has the instructions and task, so only the feedback is sent
+   */
+  buildResumePrompt(previousState: TaskState, validation?: ValidationResult, message?: string): string {
+    let prompt = `[SUPERVISOR FEEDBACK]\n\n`;
+    prompt += `The supervisor checked the state you reported for task ${previousState.taskId}.`;
+    prompt += this.buildRetryContext(previousState, validation);
+
+    if (message) {
+      prompt += `\n[MESSAGE FROM REVIEWER]\n\n${message}\n`;
+    }
+
+    prompt += `\nUse attemptNumber ${previousState.attemptNumber + 1} in the state file.\n`;
+
+    return prompt;
+  }
+
+  /**
+   * Build the prompt for the reviewer agent: the task, what the implementer claimed, and the diff
+   * The project's review template (.claudefather/templates/review-prompt.md) is appended to the core instructions
+   */
+  async buildReviewPrompt(task: Task, state: TaskState, patch: string): Promise<string> {
+    let prompt = this.getDefaultReviewPrompt();
+    if (existsSync(this.reviewPromptPath)) {
+      prompt += '\n\n' + (await readFile(this.reviewPromptPath, 'utf-8'));
+    }
+
+    prompt += `\n\n---\n\n[TASK DESCRIPTION]\n\n${task.content}\n`;
+
+    prompt += `\n---\n\n[IMPLEMENTER'S REPORT]\n\n${state.summary}\n`;
+    if (state.assumptions && state.assumptions.length > 0) {
+      prompt += `\nAssumptions:\n`;
+      state.assumptions.forEach((assumption) => {
+        prompt += `- ${assumption.description} (${assumption.reasoning})\n`;
+      });
+    }
+    if (state.workarounds && state.workarounds.length > 0) {
+      prompt += `\nWorkarounds:\n`;
+      state.workarounds.forEach((workaround) => {
+        prompt += `- ${workaround.issue}: ${workaround.solution}\n`;
+      });
+    }
+
+    prompt += `\n---\n\n[DIFF]\n\n\`\`\`diff\n${patch || '(no changes)'}\n\`\`\`\n`;
+
+    return prompt;
+  }
+
   /**
    * Build the system prompt (core instructions + optional project template)
    *
@@ -116,16 +235,70 @@ export class PromptBuilder {
       context += `Validation issues:\n`;
       validation.issues.forEach((issue, i) => {
         context += `${i + 1}. [${issue.type}] ${issue.message}\n`;
+        if (issue.output) {
+          context += `   Output:\n\`\`\`\n${issue.output}\n\`\`\`\n`;
+        }
       });
       context += '\n';
     }
 
+    if (previousState.reviewFeedback) {
+      context += this.buildReviewContext(previousState.reviewFeedback);
+    }
+
     context += `Please address these issues and try again.\n`;
     context += `Write your updated state file when done.\n`;
 
     return context;
   }
 
+  /**
+   * Describe pull request review feedback: unresolved threads and failed checks
+   */
+  private buildReviewContext(review: ReviewFeedback): string {
+    let context = `[PULL REQUEST REVIEW]\n\n`;
+    context += `Reviewers left feedback on the pull request for your branch (at commit ${review.headSha.slice(0, 7)}).\n`;
+    context += `Make the requested changes on the same branch and commit them. The supervisor pushes the branch and replies to each thread.\n\n`;
+
+    review.threads.forEach((thread, i) => {
+      context += `Thread ${i + 1} - ${thread.path}${thread.line ? `:${thread.line}` : ''}\n`;
+      thread.comments.forEach((comment) => {
+        context += `> ${comment.author}: ${comment.body.replace(/\n/g, '\n> ')}\n`;
+      });
+      context += '\n';
+    });
+
+    if (review.failedChecks.length > 0) {
+      context += `Failed checks:\n`;
+      review.failedChecks.forEach((check) => {
+        context += `- ${check}\n`;
+      });
+      context += '\n';
+    }
+
+    return context;
+  }
+
+  /**
+   * Core reviewer instructions
+   */
+  private getDefaultReviewPrompt(): string {
+    return `You are reviewing work another agent did on a task. Its tests and checks already pass;
+your job is to judge whether the diff actually does what the task asks.
+
+You can read files in the repository but cannot change anything.
+
+Check that:
+- Every requirement in the task description is implemented, and none was quietly dropped or narrowed
+- The changes do what the implementer's report claims
+- The assumptions and workarounds are reasonable and don't contradict the task
+- Nothing unrelated to the task was changed
+
+Reply with your verdict: approved is true only if the work can be merged as it is. List each problem as a finding
+(blocker: the task is not done; major: should be fixed before merging; minor: a nitpick). Findings are sent back
+to the implementer as feedback, so make each one specific and actionable.`;
+  }
+
   /**
    * Default system prompt - minimal core instructions
    * The template file provides complete detailed guidance and is appended below
@@ -0,0 +1,105 @@
+import { execa } from 'execa';
+import type { Config } from './config-loader.js';
+import { GitHubClient } from './github-client.js';
+import { PullRequestInfo, Task, TaskState } from './types.js';
+
+/**
+ * Pushes a verified task's branch and opens its pull request
+ * Safe to call repeatedly: an existing open pull request for the branch is reused
+ */
+export class PullRequestPublisher {
+  private projectDir: string;
+  private config: Config;
+  private client: GitHubClient;
+
+  constructor(projectDir: string, config: Config, client?: GitHubClient) {
+    this.projectDir = projectDir;
+    this.config = config;
+    this.client = client ?? new GitHubClient(projectDir, config.github);
+  }
+
+  /**
+   * Push the task's branch and return its open pull request, creating one if needed
+   */
+  async publish(task: Task, state: TaskState): Promise<PullRequestInfo> {
+    const branch = `${state.branchPrefix || this.config.branchPrefix}/${task.id}`;
+    const headSha = await this.push(branch);
+
+    if (state.pullRequest) {
+      const existing = await this.client.getOpenPullRequest(state.pullRequest.number);
+      if (existing) return { ...existing, headSha };
+    }
+
+    const open = await this.client.findOpenPullRequest(branch);
+    if (open) return { ...open, headSha };
+
+    const created = await this.client.createPullRequest({
+      title: task.title ?? this.defaultTitle(task),
+      body: PullRequestPublisher.buildBody(task, state),
+      head: branch,
+      base: task.baseBranch ?? this.config.baseBranch ?? (await this.client.getDefaultBranch()),
+      draft: this.config.github.draft,
+      labels: task.labels ?? [],
+    });
+    return { ...created, headSha };
+  }
+
+  /**
+   * Pull request description built from what Claude reported in the task state
+   */
+  static buildBody(task: Task, state: TaskState): string {
+    let body = `## Summary\n\n${state.summary}\n`;
+
+    if (state.filesChanged.length > 0) {
+      body += `\n## Files changed\n\n`;
+      state.filesChanged.forEach((file) => {
+        body += `- \`${file}\`\n`;
+      });
+    }
+
+    if (state.assumptions && state.assumptions.length > 0) {
+      body += `\n## Assumptions\n\n`;
+      state.assumptions.forEach((assumption) => {
+        body += `- **${assumption.description}** - ${assumption.reasoning}\n`;
+      });
+    }
+
+    if (state.workarounds && state.workarounds.length > 0) {
+      body += `\n## Workarounds\n\n`;
+      state.workarounds.forEach((workaround) => {
+        body += `- **${workaround.issue}** - ${workaround.solution}\n`;
+      });
+    }
+
+    body += `\n---\n\nTask \`${task.id}\`, verified in ${state.attemptNumber} attempt(s) by claudefather.\n`;
+    return body;
+  }
+
+  /**
+   * First heading of the task description, or the task ID
+   */
+  private defaultTitle(task: Task): string {
+    return task.content.match(/^#\s+(.+)$/m)?.[1].trim() ?? task.id;
+  }
+
+  /**
+   * Push the branch, overwriting a previous push of it (retries may have rebased it)
+   * Returns the commit that was pushed
+   */
+  private async push(branch: string): Promise<string> {
+    const { stdout } = await execa('git', ['rev-parse', `refs/heads/${branch}`], { cwd: this.projectDir });
+    const sha = stdout.trim();
+
+    const result = await execa(
+      'git',
+      ['push', '--force-with-lease', this.config.github.remote, `${sha}:refs/heads/${branch}`],
+      { cwd: this.projectDir, reject: false }
+    );
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to push ${branch} to ${this.config.github.remote}: ${result.stderr || result.stdout}`);
+    }
+
+    return sha;
+  }
+}
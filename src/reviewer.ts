@@ -0,0 +1,90 @@
+import { ClaudeRunner } from './claude-runner.js';
+import type { AgentRunner, RunnerFactory, SessionOptions } from './agent-runner.js';
+import { PromptBuilder } from './prompt-builder.js';
+import { StateManager } from './state-manager.js';
+import { ReviewVerdictSchema, type AgentOptions, type ReviewConfig } from './schemas.js';
+import { ReviewVerdict, Task, TaskState } from './types.js';
+
+// Tools the reviewer gets: it can look around the worktree but not change it
+const READ_ONLY_TOOLS = ['Read', 'Grep', 'Glob'];
+
+// JSON schema of the verdict, mirroring ReviewVerdictSchema
+const VERDICT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    approved: { type: 'boolean' },
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['blocker', 'major', 'minor'] },
+          message: { type: 'string' },
+          file: { type: 'string' },
+        },
+        required: ['severity', 'message'],
+      },
+    },
+  },
+  required: ['approved', 'summary', 'findings'],
+};
+
+/**
+ * Second-pass reviewer: a separate, read-only session that judges a completed task's diff
+ * against the task description and the implementer's report
+ */
+export class Reviewer {
+  private runner: AgentRunner;
+  private promptBuilder: PromptBuilder;
+
+  constructor(
+    stateManager: StateManager,
+    projectDir: string,
+    worktreePath: string,
+    config: ReviewConfig,
+    agentOptions: AgentOptions = {},
+    createRunner: RunnerFactory = (...args) => new ClaudeRunner(...args)
+  ) {
+    this.promptBuilder = new PromptBuilder(projectDir);
+    this.runner = createRunner(stateManager, projectDir, config.timeoutMinutes * 60 * 1000, worktreePath, {
+      ...agentOptions,
+      model: config.model ?? agentOptions.model,
+      // Only the read-only tools are offered and pre-approved; anything else would need a permission prompt
+      allowedTools: READ_ONLY_TOOLS,
+      disallowedTools: undefined,
+      permissionMode: 'default',
+    });
+  }
+
+  /**
+   * The session runner, so the supervisor can abort it and read its usage
+   */
+  getRunner(): AgentRunner {
+    return this.runner;
+  }
+
+  /**
+   * Review the task's diff, returning the reviewer's verdict
+   */
+  async review(
+    task: Task,
+    state: TaskState,
+    patch: string,
+    options: Pick<SessionOptions, 'maxBudgetUsd' | 'secretScanner' | 'attempt'> = {}
+  ): Promise<ReviewVerdict> {
+    const prompt = await this.promptBuilder.buildReviewPrompt(task, state, patch);
+    const answer = await this.runner.runStructured(task.id, prompt, VERDICT_JSON_SCHEMA, {
+      ...options,
+      tools: READ_ONLY_TOOLS,
+      label: 'Review',
+    });
+
+    const result = ReviewVerdictSchema.safeParse(answer);
+    if (!result.success) {
+      throw new Error(`Reviewer returned an invalid verdict: ${result.error.message}`);
+    }
+
+    return result.data;
+  }
+}
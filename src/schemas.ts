@@ -27,6 +27,71 @@ export const WorkaroundSchema = z.object({
   solution: z.string(),
 });
 
+/**
+ * Schema for validating session usage (added by supervisor)
+ */
+export const SessionUsageSchema = z.object({
+  costUsd: z.number(),
+  turns: z.number().int(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  cacheReadInputTokens: z.number().int(),
+  cacheCreationInputTokens: z.number().int(),
+});
+
+/**
+ * Schema for validating supervisor validation issues
+ */
+export const ValidationIssueSchema = z.object({
+  type: z.enum([
+    'exit_code_mismatch',
+    'invalid_format',
+    'suspicious_content',
+    'git_inconsistency',
+    'missing_file',
+    'diff_too_large',
+    'forbidden_path',
+    'banned_pattern',
+    'review_rejected',
+    'secret_detected',
+  ]),
+  message: z.string(),
+  output: z.string().optional(),
+});
+
+/**
+ * Schema for validating the reviewer agent's verdict
+ */
+export const ReviewVerdictSchema = z.object({
+  approved: z.boolean(),
+  summary: z.string(),
+  findings: z.array(
+    z.object({
+      severity: z.enum(['blocker', 'major', 'minor']),
+      message: z.string(),
+      file: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * Schema for validating a refused out-of-scope edit (added by supervisor)
+ */
+export const PathDenialSchema = z.object({
+  tool: z.string(),
+  path: z.string(),
+  reason: z.string(),
+  deniedAt: z.string().datetime(),
+});
+
+/**
+ * Schema for validating retry feedback (added by supervisor)
+ */
+export const RetryFeedbackSchema = z.object({
+  issues: z.array(z.string()),
+  instruction: z.string(),
+});
+
 /**
  * Schema for validating task state (written by Claude)
  */
@@ -42,6 +107,8 @@ export const TaskStateSchema = z.object({
     'MISSING_INFORMATION',
     'EXTERNAL_DEPENDENCY_BLOCKED',
     'MERGE_CONFLICT_DETECTED',
+    'BUDGET_EXCEEDED',
+    'SETUP_FAILED',
     'NEEDS_RETRY',
   ]),
   branch: z.string().optional(),
@@ -54,26 +121,347 @@ export const TaskStateSchema = z.object({
   assumptions: z.array(AssumptionSchema).optional(),
   workarounds: z.array(WorkaroundSchema).optional(),
 
-  attemptNumber: z.number().int().min(1),
+  // 0 when the first attempt was interrupted before it finished
+  attemptNumber: z.number().int().min(0),
   startedAt: z.string().datetime(),
   completedAt: z.string().datetime(),
 
   filesChanged: z.array(z.string()),
   summary: z.string(),
 
-  feedback: z
+  feedback: RetryFeedbackSchema.optional(),
+
+  validationIssues: z.array(ValidationIssueSchema).optional(),
+
+  usage: SessionUsageSchema.optional(),
+  attemptUsage: z.array(SessionUsageSchema.extend({ attemptNumber: z.number().int().min(1) })).optional(),
+
+  sessionId: z.string().optional(),
+
+  baseRef: z.string().optional(),
+  baseSha: z.string().optional(),
+
+  conflict: z
+    .object({
+      into: z.string(),
+      files: z.array(z.string()),
+    })
+    .optional(),
+
+  pullRequest: z
     .object({
-      issues: z.array(z.string()),
-      instruction: z.string(),
+      number: z.number().int().positive(),
+      url: z.string(),
+      branch: z.string(),
+      base: z.string(),
+      headSha: z.string().optional(),
     })
     .optional(),
 
-  validationIssues: z
+  reviewFeedback: z
+    .object({
+      headSha: z.string(),
+      threads: z.array(
+        z.object({
+          commentId: z.number().int(),
+          path: z.string(),
+          line: z.number().int().optional(),
+          comments: z.array(
+            z.object({
+              id: z.number().int(),
+              author: z.string(),
+              body: z.string(),
+            })
+          ),
+        })
+      ),
+      failedChecks: z.array(z.string()),
+    })
+    .optional(),
+  addressedCommentIds: z.array(z.number().int()).optional(),
+
+  sourceIssueUpdatedAt: z.string().datetime().optional(),
+
+  reviewer: ReviewVerdictSchema.extend({
+    reviewedAt: z.string().datetime(),
+    rejections: z.number().int().min(0),
+  }).optional(),
+
+  pathDenials: z.array(PathDenialSchema).optional(),
+});
+
+/**
+ * Schema for validating attempt history records (written by supervisor)
+ */
+export const AttemptRecordSchema = z.object({
+  taskId: z.string(),
+  attemptNumber: z.number().int().min(1),
+  status: TaskStateSchema.shape.status,
+  startedAt: z.string().datetime(),
+  completedAt: z.string().datetime(),
+  durationMs: z.number().int().min(0),
+  reportedState: TaskStateSchema.nullable(),
+  validationIssues: z.array(ValidationIssueSchema),
+  feedback: RetryFeedbackSchema.optional(),
+  usage: SessionUsageSchema.optional(),
+  commitSha: z.string().optional(),
+  sessionId: z.string().optional(),
+  error: z.string().optional(),
+  commands: z
     .array(
       z.object({
-        type: z.enum(['exit_code_mismatch', 'invalid_format', 'suspicious_content', 'git_inconsistency']),
-        message: z.string(),
+        command: z.string(),
+        isError: z.boolean(),
+        output: z.string().optional(),
       })
     )
     .optional(),
+  pathDenials: z.array(PathDenialSchema).optional(),
 });
+
+/**
+ * Allow a validator to be configured with options or switched off with `false`
+ */
+const toggleable = <T extends z.ZodTypeAny>(schema: T) => z.union([z.literal(false), schema]).optional();
+
+/**
+ * Schema for the validator pipeline (`validators` in .claudefatherrc and task frontmatter)
+ */
+export const ValidatorsConfigSchema = z
+  .object({
+    command: toggleable(
+      z
+        .object({
+          commands: z.array(z.string()),
+          timeoutMs: z.number().int().positive().optional(),
+        })
+        .strict()
+    ),
+    requiredFiles: toggleable(
+      z
+        .object({
+          paths: z.array(z.string()),
+        })
+        .strict()
+    ),
+    maxDiffSize: toggleable(
+      z
+        .object({
+          maxLines: z.number().int().positive().optional(),
+          maxFiles: z.number().int().positive().optional(),
+        })
+        .strict()
+    ),
+    forbiddenPaths: toggleable(
+      z
+        .object({
+          globs: z.array(z.string()),
+        })
+        .strict()
+    ),
+    transcript: toggleable(
+      z
+        .object({
+          checkPatterns: z.array(z.string()).optional(), // Regexes for test/build/lint commands
+        })
+        .strict()
+        .refine(
+          ({ checkPatterns }) =>
+            (checkPatterns ?? []).every((pattern) => {
+              try {
+                new RegExp(pattern);
+                return true;
+              } catch {
+                return false;
+              }
+            }),
+          { message: 'transcript.checkPatterns contains an invalid regular expression' }
+        )
+    ),
+    bannedPatterns: toggleable(
+      z
+        .object({
+          patterns: z.array(z.string()),
+          flags: z.string().optional(),
+          paths: z.array(z.string()).optional(),
+        })
+        .strict()
+        .refine(
+          ({ patterns, flags }) =>
+            patterns.every((pattern) => {
+              try {
+                new RegExp(pattern, flags);
+                return true;
+              } catch {
+                return false;
+              }
+            }),
+          { message: 'bannedPatterns contains an invalid regular expression' }
+        )
+    ),
+  })
+  .strict();
+
+export type ValidatorsConfig = z.infer<typeof ValidatorsConfigSchema>;
+
+/**
+ * Schema for preparing new task worktrees (`worktree` in .claudefatherrc)
+ */
+export const WorktreeConfigSchema = z
+  .object({
+    setup: z.array(z.string()).default([]), // Commands run in the worktree before Claude starts
+    copy: z.array(z.string()).default([]), // Globs of untracked files to copy from the main checkout
+    setupTimeoutMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export type WorktreeConfig = z.infer<typeof WorktreeConfigSchema>;
+
+/**
+ * Schema for the GitHub integration (`github` in .claudefatherrc)
+ */
+export const GitHubConfigSchema = z
+  .object({
+    remote: z.string().min(1).default('origin'), // Remote task branches are pushed to
+    repo: z
+      .string()
+      .regex(/^[^/\s]+\/[^/\s]+$/, 'repo must look like "owner/name"')
+      .optional(), // Defaults to the repository the remote points at
+    apiBaseUrl: z.string().url().optional(), // e.g. a GitHub Enterprise or local mock server
+    draft: z.boolean().default(true),
+    onIssueComplete: z.enum(['comment', 'close']).optional(), // What to do with a task's source issue once it completes
+  })
+  .strict();
+
+export type GitHubConfig = z.infer<typeof GitHubConfigSchema>;
+
+/**
+ * Schema for the reviewer agent stage (`review` in .claudefatherrc)
+ */
+export const ReviewConfigSchema = z
+  .object({
+    model: z.string().optional(), // Defaults to the task's model
+    maxRejections: z.number().int().positive().default(2), // Rejections before the task goes to human review
+    timeoutMinutes: z.number().positive().default(15),
+  })
+  .strict();
+
+export type ReviewConfig = z.infer<typeof ReviewConfigSchema>;
+
+/**
+ * Schema for secret scanning of task diffs and logs (`secrets` in .claudefatherrc)
+ */
+export const SecretsConfigSchema = z
+  .object({
+    enabled: z.boolean().default(true), // Block tasks whose diff adds a likely secret
+    patterns: z.array(z.string()).default([]), // Extra regexes for project-specific credentials
+    allowlist: z.array(z.string()).default([]), // Regexes for values that are not secrets (e.g. test fixtures)
+    minEntropy: z.number().positive().default(3.5), // Bits per character for generic `key = "..."` findings
+    redactLogs: z.boolean().default(true), // Redact likely secrets from session logs
+  })
+  .strict()
+  .refine(
+    ({ patterns, allowlist }) =>
+      [...patterns, ...allowlist].every((pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }),
+    { message: 'secrets.patterns or secrets.allowlist contains an invalid regular expression' }
+  );
+
+export type SecretsConfig = z.infer<typeof SecretsConfigSchema>;
+
+/**
+ * Schema for the state file a scripted session writes
+ * Fields that are left out are filled in from the worktree
+ */
+export const ScenarioStateSchema = TaskStateSchema.pick({
+  status: true,
+  summary: true,
+  filesChanged: true,
+  blockerContext: true,
+  assumptions: true,
+  workarounds: true,
+  branch: true,
+  commitSha: true,
+})
+  .partial()
+  .required({ status: true })
+  .extend({ gitStatus: GitStatusSchema.partial().optional() })
+  .strict();
+
+export type ScenarioState = z.infer<typeof ScenarioStateSchema>;
+
+/**
+ * Schema for one step of a scripted session (see ScriptedRunner)
+ */
+export const ScenarioStepSchema = z.union([
+  z.object({ say: z.string() }).strict(),
+  z.object({ write: z.object({ path: z.string().min(1), content: z.string() }).strict() }).strict(),
+  z
+    .object({
+      edit: z
+        .object({
+          path: z.string().min(1),
+          old: z.string().min(1),
+          new: z.string(),
+          all: z.boolean().optional(), // Replace every occurrence instead of exactly one
+        })
+        .strict(),
+    })
+    .strict(),
+  z.object({ run: z.string().min(1) }).strict(), // Shell command, run in the worktree
+  z.object({ verify: z.literal(true) }).strict(), // Run the task's acceptance commands, as the prompt asks Claude to
+  z.object({ commit: z.string().min(1) }).strict(), // Commit message for everything changed so far
+  z.object({ wait: z.number().int().nonnegative() }).strict(), // Milliseconds, e.g. to run into a timeout
+  z.object({ state: ScenarioStateSchema }).strict(),
+]);
+
+export type ScenarioStep = z.infer<typeof ScenarioStepSchema>;
+
+/**
+ * Schema for one scripted session
+ */
+export const ScenarioSessionSchema = z
+  .object({
+    steps: z.array(ScenarioStepSchema).default([]),
+    costUsd: z.number().nonnegative().default(0), // Reported as the session's spend
+    answer: z.unknown().optional(), // Structured answer of a review session
+    error: z.string().optional(), // Fail the session with this error after its steps
+  })
+  .strict();
+
+export type ScenarioSession = z.infer<typeof ScenarioSessionSchema>;
+
+/**
+ * Schema for a scripted task (.claudefather/scenarios/{task-id}.yaml)
+ * Task sessions and reviewer sessions are played in order, one per attempt
+ */
+export const ScenarioSchema = z
+  .object({
+    sessions: z.array(ScenarioSessionSchema).default([]),
+    reviews: z.array(ScenarioSessionSchema).default([]),
+  })
+  .strict();
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+/**
+ * Schema for agent session options (flat keys in .claudefatherrc and task frontmatter)
+ * Unknown keys are stripped, so it can pick these options out of a larger object
+ */
+export const AgentOptionsSchema = z.object({
+  model: z.string().optional(),
+  fallbackModel: z.string().optional(),
+  maxTurns: z.number().int().positive().optional(),
+  allowedTools: z.array(z.string()).optional(),
+  disallowedTools: z.array(z.string()).optional(),
+  permissionMode: z.enum(['default', 'acceptEdits', 'bypassPermissions', 'plan']).optional(),
+  appendSystemPrompt: z.string().optional(),
+});
+
+export type AgentOptions = z.infer<typeof AgentOptionsSchema>;
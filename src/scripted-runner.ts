@@ -0,0 +1,468 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import { execa } from 'execa';
+import matter from 'gray-matter';
+import { BaseRunner, TaskInterruptedError, type RunnerFactory, type SessionContext } from './agent-runner.js';
+import { parseEvents } from './event-log.js';
+import { writeFileAtomic } from './file-lock.js';
+import { StateManager } from './state-manager.js';
+import {
+  ScenarioSchema,
+  TaskStateSchema,
+  type Scenario,
+  type ScenarioSession,
+  type ScenarioState,
+  type ScenarioStep,
+} from './schemas.js';
+import { GitStatus, SessionUsage, TaskState } from './types.js';
+
+// Scenario files looked up for a task, in order; `default.*` is used for tasks without one
+const SCENARIO_EXTENSIONS = ['.yaml', '.yml', '.json', '.jsonl'];
+
+// Played when there is no scenario at all: the acceptance commands, an empty commit, a completion
+// claim and an approving reviewer
+const BUILT_IN_SCENARIO: Scenario = {
+  sessions: [
+    {
+      steps: [
+        { say: 'No scenario for this task, so this dry run commits nothing and claims completion' },
+        { verify: true },
+        { commit: 'Dry run' },
+        { state: { status: 'VERIFIED_COMPLETE', summary: 'Dry run: no changes were made' } },
+      ],
+      costUsd: 0,
+    },
+  ],
+  reviews: [{ steps: [], costUsd: 0, answer: { approved: true, summary: 'Dry run', findings: [] } }],
+};
+
+// Fields of a recorded state file that are replayed; the rest describe the original worktree
+const REPLAYED_STATE_FIELDS = ['status', 'summary', 'filesChanged', 'blockerContext', 'assumptions', 'workarounds'];
+
+/**
+ * Scenarios of every task, and how far each task has played them
+ * Shared by all runners of a run, since the supervisor creates a new runner per task and reviewer
+ */
+export class ScenarioLibrary {
+  private scenarios = new Map<string, Promise<Scenario>>();
+  private played = new Map<string, number>(); // "{task-id}:{sessions|reviews}" -> sessions played
+  private touched = new Map<string, Set<string>>(); // Task ID -> files its steps changed
+
+  constructor(private scenarioDir: string) {}
+
+  describe(): string {
+    return this.scenarioDir;
+  }
+
+  /**
+   * The task's next session of a kind and its number (the last one repeats once they run out)
+   */
+  async next(taskId: string, kind: 'sessions' | 'reviews'): Promise<{ session: ScenarioSession; number: number }> {
+    const sessions = (await this.load(taskId))[kind];
+    if (sessions.length === 0) {
+      throw new Error(`The scenario for task ${taskId} has no ${kind}`);
+    }
+
+    const key = `${taskId}:${kind}`;
+    const number = (this.played.get(key) ?? 0) + 1;
+    this.played.set(key, number);
+
+    return { session: sessions[Math.min(number, sessions.length) - 1], number };
+  }
+
+  /**
+   * Remember a file the task's steps changed, for the filesChanged of its state file
+   */
+  touch(taskId: string, path: string): void {
+    const files = this.touched.get(taskId) ?? new Set<string>();
+    files.add(path);
+    this.touched.set(taskId, files);
+  }
+
+  getTouched(taskId: string): string[] {
+    return [...(this.touched.get(taskId) ?? [])];
+  }
+
+  private load(taskId: string): Promise<Scenario> {
+    let scenario = this.scenarios.get(taskId);
+    if (!scenario) {
+      scenario = this.read(taskId);
+      this.scenarios.set(taskId, scenario);
+    }
+    return scenario;
+  }
+
+  private async read(taskId: string): Promise<Scenario> {
+    const candidates = [taskId, 'default'].flatMap((name) =>
+      SCENARIO_EXTENSIONS.map((extension) => join(this.scenarioDir, `${name}${extension}`))
+    );
+    const path = candidates.find((candidate) => existsSync(candidate));
+    if (!path) {
+      return BUILT_IN_SCENARIO;
+    }
+
+    const content = await readFile(path, 'utf-8');
+    let data: unknown;
+    try {
+      if (path.endsWith('.jsonl')) {
+        data = fromTranscript(content, taskId);
+      } else if (path.endsWith('.json')) {
+        data = JSON.parse(content);
+      } else {
+        // gray-matter is already how task frontmatter is read, so it parses the YAML here too
+        data = matter(`---\n${content}\n---\n`).data;
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse scenario ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = ScenarioSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(`Invalid scenario ${path}: ${result.error.message}`);
+    }
+
+    return result.data;
+  }
+}
+
+/**
+ * Turn a task's event log (.jsonl) into a scenario that repeats what its sessions did:
+ * what Claude said, the files it wrote and edited, the commands it ran and the state it reported
+ */
+function fromTranscript(content: string, taskId: string): unknown {
+  const sessions: Array<{ steps: ScenarioStep[]; costUsd: number; answer?: unknown }> = [];
+  const reviews: typeof sessions = [];
+  let session: (typeof sessions)[number] | undefined;
+  let cwd: string | undefined;
+
+  // Recorded paths are relative to the original worktree
+  const replayPath = (path: string): string => {
+    if (!isAbsolute(path)) {
+      return path;
+    }
+    const relativePath = cwd ? relative(cwd, path) : '';
+    if (!cwd || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new Error(`Cannot replay a change to ${path}, which is outside the recorded session's directory`);
+    }
+    return relativePath;
+  };
+
+  for (const event of parseEvents(content)) {
+    if (event.kind === 'session_start') {
+      session = { steps: [], costUsd: 0 };
+      cwd = event.cwd;
+      (event.label === 'Review' ? reviews : sessions).push(session);
+      continue;
+    }
+    if (!session) continue;
+
+    if (event.kind === 'assistant_text') {
+      session.steps.push({ say: event.text });
+    } else if (event.kind === 'result') {
+      session.costUsd = event.costUsd;
+      try {
+        session.answer = event.text ? JSON.parse(event.text) : undefined;
+      } catch {
+        // Task sessions end with prose, not an answer
+      }
+    } else if (event.kind === 'tool_call') {
+      const input = event.input;
+      if (event.tool === 'Bash' && typeof input.command === 'string') {
+        session.steps.push({ run: cwd ? input.command.split(cwd).join('.') : input.command });
+      } else if (event.tool === 'Write' && typeof input.file_path === 'string' && typeof input.content === 'string') {
+        const path = replayPath(input.file_path);
+        const state = path === join('.claudefather', 'state', `${taskId}.json`) ? parseState(input.content) : null;
+        session.steps.push(state ? { state } : { write: { path, content: input.content } });
+      } else if (event.tool === 'Edit' && typeof input.file_path === 'string') {
+        session.steps.push({
+          edit: {
+            path: replayPath(input.file_path),
+            old: String(input.old_string),
+            new: String(input.new_string),
+            all: input.replace_all === true ? true : undefined,
+          },
+        });
+      } else if (event.tool === 'MultiEdit' && typeof input.file_path === 'string' && Array.isArray(input.edits)) {
+        const path = replayPath(input.file_path);
+        for (const edit of input.edits as Array<Record<string, unknown>>) {
+          session.steps.push({
+            edit: {
+              path,
+              old: String(edit.old_string),
+              new: String(edit.new_string),
+              all: edit.replace_all === true ? true : undefined,
+            },
+          });
+        }
+      }
+      // Tools that only look around (Read, Grep, ...) have nothing to replay
+    }
+  }
+
+  return { sessions, reviews };
+}
+
+/**
+ * The replayable fields of a recorded state file, or null if it isn't one
+ */
+function parseState(content: string): ScenarioState | null {
+  try {
+    const recorded = JSON.parse(content);
+    const state = Object.fromEntries(
+      REPLAYED_STATE_FIELDS.filter((key) => key in recorded).map((key) => [key, recorded[key]])
+    );
+    return 'status' in state ? (state as ScenarioState) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Offline runner that plays scripted sessions instead of talking to Claude
+ * Each task session (and reviewer session) plays the next session of the task's scenario in
+ * .claudefather/scenarios: YAML or JSON steps, or a recorded event log (.jsonl) to replay.
+ * Steps really change the worktree, so the supervisor's validation sees their effects
+ */
+export class ScriptedRunner extends BaseRunner {
+  private library: ScenarioLibrary;
+
+  constructor(
+    library: ScenarioLibrary,
+    stateManager: StateManager,
+    projectDir: string = '.',
+    timeoutMs: number = 60 * 60 * 1000,
+    worktreeDir?: string
+  ) {
+    super(stateManager, projectDir, timeoutMs, worktreeDir);
+    this.library = library;
+  }
+
+  /**
+   * Runner factory for the supervisor whose runners share one scenario directory
+   */
+  static factory(scenarioDir: string): RunnerFactory {
+    const library = new ScenarioLibrary(scenarioDir);
+    return (stateManager, projectDir, timeoutMs, worktreeDir) =>
+      new ScriptedRunner(library, stateManager, projectDir, timeoutMs, worktreeDir);
+  }
+
+  protected describeOptions(): string {
+    return [
+      `Scripted session (scenarios: ${this.library.describe()})`,
+      `Timeout: ${this.timeoutMs / 1000 / 60} minutes`,
+    ].join('\n');
+  }
+
+  /**
+   * Play the task's next scripted session
+   */
+  protected async execute(session: SessionContext): Promise<unknown> {
+    const { taskId, options, outputSchema, emit, base } = session;
+    const kind = outputSchema ? 'reviews' : 'sessions';
+    const { session: script, number } = await this.library.next(taskId, kind);
+    const startedAt = new Date();
+    this.lastSessionId = `scripted-${taskId}-${kind}-${number}`;
+
+    // Like a real session, an aborted one has already spent its share of the cost for the steps it played
+    const spend = (played: number): SessionUsage => ({
+      costUsd: script.steps.length > 0 ? (script.costUsd * played) / script.steps.length : script.costUsd,
+      turns: played,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+    });
+
+    let toolUses = 0;
+    for (const step of script.steps) {
+      if (session.signal.aborted) {
+        throw new Error('Session aborted');
+      }
+      await this.playStep(step, session, `scripted-${++toolUses}`, startedAt);
+      this.lastUsage = spend(toolUses);
+    }
+
+    this.lastUsage = spend(script.steps.length);
+
+    // Mirror how the SDK ends a session that ran out of budget or failed
+    const overBudget = options.maxBudgetUsd !== undefined && script.costUsd > options.maxBudgetUsd;
+    const subtype = overBudget ? 'error_max_budget_usd' : script.error ? 'error_during_execution' : 'success';
+    const answer = outputSchema && subtype === 'success' ? script.answer : undefined;
+    emit({
+      ...base(),
+      kind: 'result',
+      subtype,
+      durationMs: Date.now() - startedAt.getTime(),
+      turns: script.steps.length,
+      costUsd: script.costUsd,
+      text: answer !== undefined ? JSON.stringify(answer) : undefined,
+    });
+
+    if (overBudget) {
+      throw new TaskInterruptedError(
+        'budget',
+        `Task ${taskId} exceeded its cost budget of $${options.maxBudgetUsd?.toFixed(2)}`
+      );
+    }
+    if (script.error) {
+      throw new Error(script.error);
+    }
+
+    return answer;
+  }
+
+  /**
+   * Carry out one step, logging it as the tool call Claude would have made
+   */
+  private async playStep(step: ScenarioStep, session: SessionContext, toolUseId: string, startedAt: Date): Promise<void> {
+    const { taskId, emit, base, cwd } = session;
+    const result = (tool: string, output: string, isError: boolean = false) =>
+      emit({ ...base(), kind: 'tool_result', tool, toolUseId, isError, output });
+
+    if ('say' in step) {
+      emit({ ...base(), kind: 'assistant_text', text: step.say });
+    } else if ('write' in step) {
+      const filePath = resolve(cwd, step.write.path);
+      emit({
+        ...base(),
+        kind: 'tool_call',
+        tool: 'Write',
+        toolUseId,
+        input: { file_path: filePath, content: step.write.content },
+      });
+      if (this.isDenied(session, 'Write', filePath)) {
+        result('Write', 'Permission denied: outside the task\'s path scope', true);
+        return;
+      }
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, step.write.content, 'utf-8');
+      this.library.touch(taskId, relative(cwd, filePath));
+      result('Write', `File created successfully at: ${filePath}`);
+    } else if ('edit' in step) {
+      const { path, old, new: replacement, all } = step.edit;
+      const filePath = resolve(cwd, path);
+      emit({
+        ...base(),
+        kind: 'tool_call',
+        tool: 'Edit',
+        toolUseId,
+        input: { file_path: filePath, old_string: old, new_string: replacement, ...(all ? { replace_all: true } : {}) },
+      });
+      if (this.isDenied(session, 'Edit', filePath)) {
+        result('Edit', 'Permission denied: outside the task\'s path scope', true);
+        return;
+      }
+      let content: string;
+      try {
+        content = await readFile(filePath, 'utf-8');
+      } catch {
+        result('Edit', `File does not exist: ${filePath}`, true);
+        return;
+      }
+      const matches = content.split(old).length - 1;
+      if (matches === 0 || (matches > 1 && !all)) {
+        const error = matches === 0 ? 'String to replace not found in file.' : `Found ${matches} matches of the string to replace.`;
+        result('Edit', error, true);
+        return;
+      }
+      const updated = all ? content.split(old).join(replacement) : content.replace(old, () => replacement);
+      await writeFile(filePath, updated, 'utf-8');
+      this.library.touch(taskId, relative(cwd, filePath));
+      result('Edit', `The file ${filePath} has been updated.`);
+    } else if ('run' in step || 'commit' in step) {
+      // The state directory is left out of commits, as the prompt tells Claude
+      const command =
+        'run' in step
+          ? step.run
+          : `git add -A && git reset -q -- .claudefather && git commit --allow-empty -m '${step.commit.replace(/'/g, `'\\''`)}'`;
+      await this.runBash(command, session, toolUseId);
+    } else if ('verify' in step) {
+      const commands = session.options.acceptanceCommands ?? [];
+      for (const [i, command] of commands.entries()) {
+        await this.runBash(command, session, `${toolUseId}-${i + 1}`);
+      }
+    } else if ('wait' in step) {
+      await new Promise<void>((resolveWait) => {
+        const timer = setTimeout(resolveWait, step.wait);
+        session.signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolveWait();
+        }, { once: true });
+      });
+    } else if ('state' in step) {
+      const state = await this.buildState(step.state, session, startedAt);
+      const statePath = this.sessionStateManager.getStatePath(taskId);
+      const content = JSON.stringify(state, null, 2);
+      emit({ ...base(), kind: 'tool_call', tool: 'Write', toolUseId, input: { file_path: statePath, content } });
+      await writeFileAtomic(statePath, content);
+      result('Write', `File created successfully at: ${statePath}`);
+    }
+  }
+
+  /**
+   * Run a shell command in the worktree, logged as a Bash call
+   * The whole string goes to the shell, so quoted arguments keep their whitespace
+   */
+  private async runBash(command: string, session: SessionContext, toolUseId: string): Promise<void> {
+    const { emit, base, cwd } = session;
+    emit({ ...base(), kind: 'tool_call', tool: 'Bash', toolUseId, input: { command } });
+    const output = await execa(command, { cwd, shell: true, all: true, reject: false, signal: session.signal });
+    emit({ ...base(), kind: 'tool_result', tool: 'Bash', toolUseId, isError: output.exitCode !== 0, output: output.all ?? '' });
+  }
+
+  /**
+   * Whether the path scope refuses an edit (recording the denial like the SDK hook does)
+   */
+  private isDenied(session: SessionContext, tool: string, filePath: string): boolean {
+    const scope = session.options.pathScope;
+    const reason = scope && !scope.isEmpty() ? scope.check(filePath, session.cwd) : null;
+    if (reason) {
+      this.denyPath(session, tool, filePath, reason);
+    }
+    return reason !== null;
+  }
+
+  /**
+   * The state file a scripted step reports: what the scenario says, the rest read from the worktree
+   * A scenario can claim something untrue (e.g. a wrong commit) to exercise validation
+   */
+  private async buildState(
+    scripted: ScenarioState,
+    session: SessionContext,
+    startedAt: Date
+  ): Promise<TaskState> {
+    const { gitStatus: scriptedGitStatus, ...fields } = scripted;
+    const gitStatus: GitStatus = { ...(await this.readGitStatus(session.cwd)), ...scriptedGitStatus };
+    const branch = fields.branch ?? gitStatus.branch;
+    const suffix = `/${session.taskId}`;
+
+    return TaskStateSchema.parse({
+      taskId: session.taskId,
+      branchPrefix: branch.endsWith(suffix) ? branch.slice(0, -suffix.length) : 'feature',
+      attemptNumber: session.options.attempt ?? 1,
+      startedAt: startedAt.toISOString(),
+      completedAt: new Date().toISOString(),
+      filesChanged: this.library.getTouched(session.taskId),
+      summary: '',
+      ...fields,
+      branch,
+      commitSha: fields.commitSha ?? gitStatus.lastCommitSha,
+      gitStatus,
+    });
+  }
+
+  private async readGitStatus(cwd: string): Promise<GitStatus> {
+    const git = async (args: string[]) => (await execa('git', args, { cwd, reject: false })).stdout.trim();
+    const dirty = (await git(['status', '--porcelain']))
+      .split('\n')
+      .filter((line) => line.trim() && !line.substring(3).startsWith('.claudefather'));
+
+    return {
+      branch: await git(['branch', '--show-current']),
+      uncommittedChanges: dirty.length > 0,
+      lastCommitMessage: await git(['log', '-1', '--format=%s']),
+      lastCommitSha: await git(['rev-parse', 'HEAD']),
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import type { SecretsConfig } from './schemas.js';
+import { AddedLine } from './types.js';
+
+/**
+ * A pattern for one kind of secret
+ * With `prefix`, the regex has two groups: the context before the secret and the secret itself
+ */
+interface SecretRule {
+  name: string;
+  pattern: RegExp;
+  prefix?: boolean;
+  entropy?: boolean; // Only report values that look random (generic rules)
+}
+
+/**
+ * A likely secret found in the task's diff
+ */
+export interface SecretFinding {
+  rule: string;
+  path: string;
+  line: number;
+  preview: string; // The line with the secret redacted
+}
+
+// Well-known token formats, plus generic assignments of random-looking values to secret-sounding names
+const BUILT_IN_RULES: SecretRule[] = [
+  { name: 'Private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9]{32,}\b/g },
+  { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'Stripe secret key', pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/g },
+  { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  {
+    name: 'Secret assignment',
+    pattern: /((?:key|secret|token|password|passwd|pwd|credential|auth)[\w-]*\\?["']?\s*[:=]\s*\\?["'])([A-Za-z0-9+/=_-]{16,})/gi,
+    prefix: true,
+    entropy: true,
+  },
+  {
+    name: 'Secret in environment file',
+    pattern: /((?:^|\s|\\n)(?:export\s+)?[A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?)[A-Z0-9_]*=)([^\s"'\\]{16,})/gm,
+    prefix: true,
+    entropy: true,
+  },
+];
+
+// Values that are obviously not real secrets
+const PLACEHOLDER = /example|placeholder|dummy|changeme|redacted|your[_-]|^x+$|^\*+$/i;
+
+/**
+ * Finds credentials in text: known token formats, high-entropy values assigned to secret-sounding
+ * names, and the project's own `secrets.patterns`
+ */
+export class SecretScanner {
+  private rules: SecretRule[];
+  private allowlist: RegExp[];
+  private minEntropy: number;
+
+  constructor(config: SecretsConfig) {
+    this.rules = [
+      ...BUILT_IN_RULES,
+      ...config.patterns.map((pattern) => ({ name: `Pattern /${pattern}/`, pattern: new RegExp(pattern, 'g') })),
+    ];
+    this.allowlist = config.allowlist.map((pattern) => new RegExp(pattern));
+    this.minEntropy = config.minEntropy;
+  }
+
+  /**
+   * Likely secrets on lines added by the task
+   */
+  scanLines(lines: AddedLine[]): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+
+    for (const line of lines) {
+      // Specific token formats come first, so they name the finding over the generic rules
+      const rule = this.rules.find((candidate) => this.containsSecret(line.text, candidate));
+      if (rule) {
+        findings.push({ rule: rule.name, path: line.path, line: line.line, preview: this.redact(line.text).trim() });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Replace every likely secret in the text with a marker naming its kind
+   */
+  redact(text: string): string {
+    return this.rules.reduce(
+      (redacted, rule) =>
+        redacted.replace(rule.pattern, (match: string, prefix?: string, secret?: string) => {
+          const value = rule.prefix ? secret ?? '' : match;
+          if (!this.isSecret(value, rule)) return match;
+          return `${rule.prefix ? prefix : ''}[REDACTED ${rule.name}]`;
+        }),
+      text
+    );
+  }
+
+  private containsSecret(text: string, rule: SecretRule): boolean {
+    for (const match of text.matchAll(rule.pattern)) {
+      if (this.isSecret(rule.prefix ? match[2] : match[0], rule)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private isSecret(value: string, rule: SecretRule): boolean {
+    if (this.allowlist.some((pattern) => pattern.test(value))) {
+      return false;
+    }
+    if (!rule.entropy) {
+      return true;
+    }
+
+    // Generic rules need a random-looking value with letters and digits, not a placeholder or a word
+    return (
+      !PLACEHOLDER.test(value) && /[a-z]/i.test(value) && /\d/.test(value) && this.entropy(value) >= this.minEntropy
+    );
+  }
+
+  /**
+   * Shannon entropy in bits per character
+   */
+  private entropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / value.length;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy;
+  }
+}
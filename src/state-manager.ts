@@ -1,28 +1,43 @@
-import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import { readFile, mkdir, unlink, readdir, appendFile } from 'fs/promises';
 import { join } from 'path';
-import { TaskState } from './types.js';
-import { TaskStateSchema } from './schemas.js';
+import { AttemptRecord, LogEvent, TaskState } from './types.js';
+import { AttemptRecordSchema, TaskStateSchema } from './schemas.js';
+import { FileLock, writeFileAtomic } from './file-lock.js';
+import { formatEvent, parseEvents } from './event-log.js';
+import { SecretScanner } from './secret-scanner.js';
 
 /**
  * Manages task state persistence in .claudefather directory
+ * Writes are atomic and serialized per task, so parallel workers never see partial files
  */
 export class StateManager {
   private stateDir: string;
   private logsDir: string;
+  private historyDir: string;
+  private locksDir: string;
 
   constructor(projectDir: string = '.') {
     const claudefatherDir = join(projectDir, '.claudefather');
     this.stateDir = join(claudefatherDir, 'state');
     this.logsDir = join(claudefatherDir, 'logs');
+    this.historyDir = join(claudefatherDir, 'history');
+    this.locksDir = join(claudefatherDir, 'locks');
   }
 
   /**
    * Get the state file path for a task
    */
-  private getStatePath(taskId: string): string {
+  getStatePath(taskId: string): string {
     return join(this.stateDir, `${taskId}.json`);
   }
 
+  /**
+   * Get the attempt history directory for a task
+   */
+  private getHistoryDir(taskId: string): string {
+    return join(this.historyDir, taskId);
+  }
+
   /**
    * Get the log file path for a task
    */
@@ -30,6 +45,13 @@ export class StateManager {
     return join(this.logsDir, `${taskId}.log`);
   }
 
+  /**
+   * Get the structured event log path for a task (one JSON event per line)
+   */
+  getEventLogPath(taskId: string): string {
+    return join(this.logsDir, `${taskId}.jsonl`);
+  }
+
   /**
    * Ensure logs directory exists (called before streaming logs)
    */
@@ -66,26 +88,97 @@ export class StateManager {
 
   /**
    * Save task state to disk
+   * A change of status is recorded in the task's event log
    */
   async saveState(taskState: TaskState): Promise<void> {
-    // Ensure directory exists
-    await mkdir(this.stateDir, { recursive: true });
-
     const filePath = this.getStatePath(taskState.taskId);
     const content = JSON.stringify(taskState, null, 2);
 
-    await writeFile(filePath, content, 'utf-8');
+    const previous = await this.withTaskLock(taskState.taskId, async () => {
+      const previous = await this.loadState(taskState.taskId).catch(() => null);
+      await writeFileAtomic(filePath, content);
+      return previous;
+    });
+
+    if (previous?.status !== taskState.status) {
+      await this.appendEvent({
+        taskId: taskState.taskId,
+        attempt: taskState.attemptNumber,
+        timestamp: new Date().toISOString(),
+        kind: 'state_transition',
+        from: previous?.status,
+        to: taskState.status,
+        reason: taskState.status === 'VERIFIED_COMPLETE' ? undefined : taskState.blockerContext,
+      });
+    }
+  }
+
+  /**
+   * Run fn while holding the task's lock file (waits for other writers of the same task)
+   */
+  async withTaskLock<T>(taskId: string, fn: () => Promise<T>): Promise<T> {
+    const lock = new FileLock(join(this.locksDir, `${taskId}.lock`));
+    await lock.acquire();
+
+    try {
+      return await fn();
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Take the project-level lock held for the duration of a run
+   * Throws if another live claudefather process already holds it
+   */
+  async lockProject(): Promise<FileLock> {
+    const lock = new FileLock(join(this.locksDir, 'project.lock'));
+
+    if (!(await lock.tryAcquire())) {
+      const owner = await lock.getOwner();
+      throw new Error(
+        `Another claudefather process${owner !== null ? ` (pid ${owner})` : ''} is already running in this project`
+      );
+    }
+
+    return lock;
   }
 
   /**
    * Save execution log
    */
   async saveLog(taskId: string, log: string): Promise<void> {
-    // Ensure directory exists
-    await mkdir(this.logsDir, { recursive: true });
+    await writeFileAtomic(this.getLogPath(taskId), log);
+  }
 
-    const filePath = this.getLogPath(taskId);
-    await writeFile(filePath, log, 'utf-8');
+  /**
+   * Append to execution log (used for supervisor output such as worktree setup)
+   */
+  async appendLog(taskId: string, text: string): Promise<void> {
+    await this.ensureLogsDir();
+    await appendFile(this.getLogPath(taskId), text, 'utf-8');
+  }
+
+  /**
+   * Append an event to the task's structured event log
+   */
+  async appendEvent(event: LogEvent, redactor?: SecretScanner): Promise<void> {
+    await this.ensureLogsDir();
+    await appendFile(this.getEventLogPath(event.taskId), formatEvent(event, redactor), 'utf-8');
+  }
+
+  /**
+   * Load the task's structured event log (empty if there is none)
+   */
+  async loadEvents(taskId: string): Promise<LogEvent[]> {
+    try {
+      return parseEvents(await readFile(this.getEventLogPath(taskId), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
   }
 
   /**
@@ -108,32 +201,85 @@ export class StateManager {
    * Get all task states that have been saved
    */
   async getAllStates(): Promise<TaskState[]> {
-    try {
-      const files = await readFile(this.stateDir, 'utf-8').catch(() => null);
-      if (!files) return [];
-
-      // Note: This is a simplified version that assumes we can list the directory
-      // In practice, we'd need to use readdirSync or implement differently
-      return [];
-    } catch {
-      return [];
+    const files = await this.listJsonFiles(this.stateDir);
+    const states: TaskState[] = [];
+
+    for (const file of files) {
+      const state = await this.loadState(file.replace(/\.json$/, ''));
+      if (state) {
+        states.push(state);
+      }
     }
+
+    return states;
   }
 
   /**
-   * Reset task state (completely remove the state file)
+   * Record one attempt at a task (never overwrites earlier attempts)
    */
-  async resetTask(taskId: string): Promise<void> {
-    const filePath = this.getStatePath(taskId);
+  async saveAttempt(record: AttemptRecord): Promise<void> {
+    // Timestamp first so files sort chronologically, even across resets
+    const timestamp = record.startedAt.replace(/[:.]/g, '-');
+    const filePath = join(this.getHistoryDir(record.taskId), `${timestamp}-attempt-${record.attemptNumber}.json`);
+    await writeFileAtomic(filePath, JSON.stringify(record, null, 2));
+  }
 
+  /**
+   * Get every recorded attempt for a task, oldest first
+   * Unreadable records are skipped with a warning, so one bad file doesn't hide the rest
+   */
+  async getHistory(taskId: string): Promise<AttemptRecord[]> {
+    const dir = this.getHistoryDir(taskId);
+    const files = await this.listJsonFiles(dir);
+    const records: AttemptRecord[] = [];
+
+    for (const file of files) {
+      try {
+        const content = await readFile(join(dir, file), 'utf-8');
+        records.push(AttemptRecordSchema.parse(JSON.parse(content)));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Warning: Skipping invalid attempt record ${file} for ${taskId}: ${message}`);
+      }
+    }
+
+    return records.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  /**
+   * List the .json files in a directory, or none if it doesn't exist
+   */
+  private async listJsonFiles(dir: string): Promise<string[]> {
     try {
-      await unlink(filePath); // Delete the file completely
+      const entries = await readdir(dir, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+        .map((entry) => entry.name)
+        .sort();
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        // File doesn't exist, nothing to reset
-        return;
+        return [];
       }
       throw error;
     }
   }
+
+  /**
+   * Reset task state (completely remove the state file)
+   */
+  async resetTask(taskId: string): Promise<void> {
+    const filePath = this.getStatePath(taskId);
+
+    await this.withTaskLock(taskId, async () => {
+      try {
+        await unlink(filePath); // Delete the file completely
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          // File doesn't exist, nothing to reset
+          return;
+        }
+        throw error;
+      }
+    });
+  }
 }
@@ -1,36 +1,129 @@
-import { Task, TaskState, ValidationResult } from './types.js'
+import {
+  AttemptRecord,
+  CommandRecord,
+  LogEvent,
+  PathDenial,
+  RebaseConflict,
+  RetryFeedback,
+  ReviewFeedback,
+  ReviewVerdict,
+  Task,
+  TaskState,
+  TaskStatus,
+  ValidationIssue,
+  ValidationResult,
+} from './types.js'
 import { TaskLoader } from './task-loader.js'
 import { StateManager } from './state-manager.js'
 import { ClaudeRunner } from './claude-runner.js'
+import { TaskInterruptedError, type AgentRunner, type RunnerFactory } from './agent-runner.js'
 import { PromptBuilder } from './prompt-builder.js'
 import { OutputValidator } from './validators.js'
+import { GitVerifier } from './git-verifier.js'
+import { ValidatorPipeline } from './validator-pipeline.js'
+import { PathScope } from './path-scope.js'
+import { SecretScanner } from './secret-scanner.js'
 import { ConfigLoader, type Config } from './config-loader.js'
 import { WorktreeManager } from './worktree-manager.js'
 import { ConcurrencyManager } from './concurrency-manager.js'
+import { DependencyGraph } from './dependency-graph.js'
+import { AgentOptionsSchema, type AgentOptions } from './schemas.js'
+import { UsageTracker } from './usage-tracker.js'
+import { WorktreeBootstrap } from './worktree-bootstrap.js'
+import { Integrator, type IntegrateOptions, type IntegrationResult } from './integrator.js'
+import { PullRequestPublisher } from './pull-request-publisher.js'
+import { GitHubClient } from './github-client.js'
+import { Reviewer } from './reviewer.js'
+import { CLAUDEFATHER_COMMENT_MARKER, IssueImporter, type IssueImportResult } from './issue-importer.js'
+import { execa } from 'execa'
 import chalk from 'chalk'
 import ora from 'ora'
 import { resolve } from 'path'
 
+// Attempts a conflicting task gets to rebase and resolve before it goes to human review
+const CONFLICT_RESOLUTION_ATTEMPTS = 2
+
+// Attempts a task gets to address one round of review feedback
+const REVIEW_ATTEMPTS = 3
+
+/**
+ * Options for addressing pull request review feedback
+ */
+export interface AddressReviewOptions {
+  watch?: boolean // Keep polling the pull request for new feedback until it is closed or merged
+  intervalMinutes?: number // Polling interval in watch mode
+}
+
+/**
+ * Options for creating a supervisor
+ */
+export interface SupervisorOptions {
+  maxRunCostUsd?: number // Overrides the configured run budget
+  createRunner?: RunnerFactory // Backend for agent sessions (default: Claude through the Agent SDK)
+  dryRun?: boolean // Skip follow-ups that reach outside the project (pull requests, issue updates)
+}
+
+/**
+ * Options for a supervisor run
+ */
+export interface RunOptions {
+  fresh?: boolean // Start every task that runs on a new branch, deleting any existing one
+}
+
+/**
+ * Options for processing a single task
+ */
+export interface ProcessTaskOptions {
+  baseBranches?: string[] // Branches the task's worktree should start from (defaults to HEAD)
+  resume?: boolean // Continue the saved agent session even if resumeSessions is off
+  message?: string // Extra guidance sent with the first attempt
+  maxAttempts?: number
+  fresh?: boolean // Delete the task's existing branch and worktree instead of reusing them
+}
+
+/**
+ * Per-attempt details collected while the attempt runs
+ */
+interface AttemptDetails {
+  reportedState: TaskState | null
+  validationIssues: ValidationIssue[]
+  feedback?: RetryFeedback
+  error?: string
+  commands?: CommandRecord[]
+  pathDenials?: PathDenial[]
+}
+
 /**
  * Main supervisor that orchestrates the task queue
  */
 export class AISupervisor {
   private taskLoader: TaskLoader
   private stateManager: StateManager
-  private claudeRunner: ClaudeRunner
+  private claudeRunner: AgentRunner
+  private createRunner: RunnerFactory
+  private dryRun: boolean
   private promptBuilder: PromptBuilder
   private projectDir: string
   private config: Config
   private worktreeManager: WorktreeManager
   private concurrencyManager: ConcurrencyManager
   private parallelCount: number
+  private activeRunners = new Set<AgentRunner>()
+  private interrupted = false
+  private runCostUsd = 0 // Spend of all sessions started by this run
+  private runReservations = new Map<AgentRunner, number>() // Run budget set aside for each running session
+  private integrations: Promise<unknown> = Promise.resolve() // Integrations share one worktree, so they take turns
+  private runBudgetExhausted = false
+  private logRedactor?: SecretScanner // Redacts secrets from session logs (unless secrets.redactLogs is off)
 
-  constructor(projectDir: string = '.', parallelCount: number = 5) {
+  constructor(projectDir: string = '.', parallelCount: number = 5, options: SupervisorOptions = {}) {
     const resolvedProjectDir = resolve(projectDir)
     this.projectDir = resolvedProjectDir
     this.taskLoader = new TaskLoader(resolvedProjectDir)
     this.stateManager = new StateManager(resolvedProjectDir)
-    this.claudeRunner = new ClaudeRunner(this.stateManager, resolvedProjectDir)
+    this.createRunner = options.createRunner ?? ((...args) => new ClaudeRunner(...args))
+    this.claudeRunner = this.createRunner(this.stateManager, resolvedProjectDir, 60 * 60 * 1000)
+    this.dryRun = options.dryRun ?? false
     this.promptBuilder = new PromptBuilder(resolvedProjectDir)
     this.worktreeManager = new WorktreeManager(resolvedProjectDir)
     this.concurrencyManager = new ConcurrencyManager(parallelCount)
@@ -39,12 +132,18 @@ export class AISupervisor {
     // Load config from .claudefatherrc and .env
     const configLoader = new ConfigLoader(resolvedProjectDir)
     this.config = configLoader.load()
+    this.logRedactor = this.config.secrets.redactLogs ? new SecretScanner(this.config.secrets) : undefined
+
+    // CLI flag overrides the configured run budget
+    if (options.maxRunCostUsd !== undefined) {
+      this.config.maxRunCostUsd = options.maxRunCostUsd
+    }
   }
 
   /**
    * Run the supervisor - process all tasks
    */
-  async run(): Promise<void> {
+  async run(options: RunOptions = {}): Promise<void> {
     console.log(chalk.bold.blue('\n🚀 ClaudeFather Starting\n'))
 
     const tasks = await this.taskLoader.loadTasks()
@@ -54,26 +153,188 @@ export class AISupervisor {
       return
     }
 
+    // Reject missing prerequisites and cycles before any work starts
+    const graph = new DependencyGraph(tasks)
+
     console.log(
       chalk.blue(`Found ${tasks.length} task(s) (running ${this.parallelCount} in parallel)\n`)
     )
 
-    // Clean up stale worktrees before starting
-    await this.worktreeManager.pruneStaleWorktrees()
+    // Refuse to share the project's state with another running supervisor
+    const projectLock = await this.stateManager.lockProject()
+    try {
+      // Clean up stale worktrees before starting
+      await this.worktreeManager.pruneStaleWorktrees()
+
+      // Always use parallel execution with worktrees
+      // Each task waits for its prerequisites before taking a concurrency slot
+      const outcomes = new Map<string, Promise<TaskState | null>>()
+      for (const task of graph.getExecutionOrder()) {
+        const prerequisites = graph.getDependencies(task.id).map((id) => ({
+          id,
+          outcome: outcomes.get(id)!,
+        }))
+        outcomes.set(task.id, this.runWhenReady(task, prerequisites, options))
+      }
+
+      // Ctrl+C aborts running sessions and waits for them to stop before worktrees are removed
+      const onInterrupt = () => this.interrupt()
+      process.on('SIGINT', onInterrupt)
+      try {
+        await Promise.all(outcomes.values())
+      } finally {
+        process.off('SIGINT', onInterrupt)
+      }
+
+      // Clean up worktrees after all tasks complete
+      await this.worktreeManager.pruneStaleWorktrees()
+
+      if (this.config.maxRunCostUsd !== undefined) {
+        console.log(
+          chalk.gray(`Run spend: $${this.runCostUsd.toFixed(2)} of $${this.config.maxRunCostUsd.toFixed(2)}`)
+        )
+      }
+
+      if (this.interrupted) {
+        console.log(chalk.bold.yellow('\n⏹  Supervisor interrupted\n'))
+        return
+      }
+
+      if (this.runBudgetExhausted) {
+        console.log(chalk.bold.yellow('\n💸 Supervisor stopped: run budget exhausted\n'))
+        return
+      }
+
+      console.log(chalk.bold.green('\n✅ Supervisor completed\n'))
+    } finally {
+      await projectLock.release()
+    }
+  }
+
+  /**
+   * Stop the run: abort every running session and start no new tasks
+   * A second interrupt exits immediately
+   */
+  private interrupt(): void {
+    if (this.interrupted) {
+      console.log(chalk.red('\n⏹  Forcing exit'))
+      process.exit(130)
+    }
+
+    this.interrupted = true
+    console.log(
+      chalk.yellow('\n⏹  Interrupt received, stopping running tasks (press Ctrl+C again to force exit)')
+    )
+    for (const runner of this.activeRunners) {
+      runner.abort('interrupted', 'Interrupted by user')
+    }
+  }
+
+  /**
+   * Whether the run is stopping (interrupted or out of budget) and no new work should start
+   */
+  private isStopping(): boolean {
+    return this.interrupted || this.runBudgetExhausted
+  }
+
+  /**
+   * Add a runner's session spend to the run total, release its reservation, and stop the run once the
+   * run budget is used up
+   */
+  private recordRunSpend(runner: AgentRunner): void {
+    this.runReservations.delete(runner)
+    const usage = runner.getLastUsage()
+    if (!usage) return
+
+    this.runCostUsd += usage.costUsd
+    const limit = this.config.maxRunCostUsd
+    if (limit === undefined || this.runCostUsd < limit || this.runBudgetExhausted) {
+      return
+    }
+
+    this.runBudgetExhausted = true
+    console.log(
+      chalk.yellow(`\n💸 Run budget of $${limit.toFixed(2)} exhausted, stopping running tasks`)
+    )
+    for (const runner of this.activeRunners) {
+      runner.abort('budget', `Run budget of $${limit.toFixed(2)} exhausted`)
+    }
+  }
+
+  /**
+   * Budget for the next session: whatever is left of the task budget, and an even share of the run
+   * budget not yet reserved by other running sessions (split across the free parallel slots)
+   * Given a runner, its share is reserved until recordRunSpend, so parallel sessions can't each spend
+   * the whole remainder. Returns undefined when neither budget is configured
+   */
+  private getSessionBudget(task: Task, taskCostUsd: number, runner?: AgentRunner): number | undefined {
+    const remaining: number[] = []
+
+    const maxCostUsd = task.maxCostUsd ?? this.config.maxCostUsd
+    if (maxCostUsd !== undefined) {
+      remaining.push(maxCostUsd - taskCostUsd)
+    }
+    if (this.config.maxRunCostUsd !== undefined) {
+      const others = [...this.runReservations].filter(([reserver]) => reserver !== runner)
+      const reserved = others.reduce((total, [, amount]) => total + amount, 0)
+      const freeSlots = Math.max(1, this.parallelCount - others.length)
+      const share = (this.config.maxRunCostUsd - this.runCostUsd - reserved) / freeSlots
+      remaining.push(share)
+      if (runner) {
+        this.runReservations.set(runner, Math.max(0, share))
+      }
+    }
+
+    return remaining.length > 0 ? Math.min(...remaining) : undefined
+  }
+
+  /**
+   * Wait for a task's prerequisites, then process it
+   * Resolves with the task's final state, or null if it was skipped
+   */
+  private async runWhenReady(
+    task: Task,
+    prerequisites: Array<{ id: string; outcome: Promise<TaskState | null> }>,
+    options: RunOptions = {}
+  ): Promise<TaskState | null> {
+    const prerequisiteStates = await Promise.all(prerequisites.map((p) => p.outcome))
+
+    const unmet = prerequisites
+      .map((p, i) => ({ id: p.id, state: prerequisiteStates[i] }))
+      .filter(({ state }) => state?.status !== 'VERIFIED_COMPLETE')
 
-    // Always use parallel execution with worktrees
-    await Promise.all(tasks.map((task) => this.concurrencyManager.run(() => this.processTask(task))))
+    if (unmet.length > 0) {
+      console.log(chalk.bold(`\n📋 Task: ${task.id}`))
+      console.log(chalk.yellow(`⚠️  Blocked by upstream task(s), skipping`))
+      unmet.forEach(({ id, state }) => {
+        console.log(chalk.gray(`   ${id}: ${state?.status ?? 'not completed'}`))
+      })
+      return null
+    }
 
-    // Clean up worktrees after all tasks complete
-    await this.worktreeManager.pruneStaleWorktrees()
+    // Dependent tasks build on their prerequisites' feature branches
+    const baseBranches = prerequisites.map((p) =>
+      this.worktreeManager.getFeatureBranchName(p.id, this.config.branchPrefix)
+    )
 
-    console.log(chalk.bold.green('\n✅ Supervisor completed\n'))
+    await this.concurrencyManager.run(async () => {
+      // Tasks still waiting for a slot when the run is stopping never start
+      if (!this.isStopping()) {
+        await this.processTask(task, { baseBranches, fresh: options.fresh })
+      }
+    })
+
+    try {
+      return await this.stateManager.loadState(task.id)
+    } catch {
+      return null
+    }
   }
 
   /**
    * Process a single task
    */
-  async processTask(task: Task): Promise<void> {
+  async processTask(task: Task, options: ProcessTaskOptions = {}): Promise<void> {
     console.log(chalk.bold(`\n📋 Task: ${task.id}`))
 
     // Load previous state if exists
@@ -82,11 +343,19 @@ export class AISupervisor {
     // If already complete, skip
     if (state && state.status === 'VERIFIED_COMPLETE') {
       console.log(chalk.green(`✅ Already complete (attempt ${state.attemptNumber})`))
+      // Follow-ups that failed last time are retried
+      if (task.createPr && !state.pullRequest) {
+        state = await this.publishPullRequest(task, state)
+      }
+      await this.updateSourceIssue(task, state)
       return
     }
 
+    // A branch that no longer merges gets a dedicated retry that rebases it and resolves the conflict
+    const resolvingConflict = state?.status === 'MERGE_CONFLICT_DETECTED' && this.config.resolveConflicts
+
     // If blocked, log and continue to next task
-    if (state && this.isBlocker(state.status)) {
+    if (state && this.isBlocker(state.status) && !resolvingConflict) {
       console.log(chalk.yellow(`⚠️  Blocked: ${state.status}`))
       console.log(chalk.gray(`   ${state.blockerContext || 'No additional context'}`))
       // Ensure we're on the original branch before continuing
@@ -96,28 +365,145 @@ export class AISupervisor {
 
     // Create worktree for each task
     let worktreePath: string | undefined
+    let baseRef: string | undefined
+    let baseSha: string | undefined
     let claudeRunner = this.claudeRunner
 
     try {
-      worktreePath = await this.worktreeManager.createWorktree(
+      // Prerequisite branches come first; otherwise start from the configured base (or HEAD)
+      let baseBranches = options.baseBranches ?? []
+      const configuredBase = task.baseBranch ?? this.config.baseBranch
+      if (baseBranches.length === 0 && configuredBase) {
+        baseBranches = [await this.worktreeManager.resolveBaseRef(configuredBase, this.config.baseRemote)]
+      }
+
+      const worktree = await this.worktreeManager.createWorktree(
         task.id,
-        this.config.branchPrefix
+        this.config.branchPrefix,
+        baseBranches,
+        options.fresh
+      )
+      worktreePath = worktree.path
+      baseRef = baseBranches[0]
+      baseSha = worktree.baseSha
+      // Task frontmatter overrides the project's timeout
+      const timeoutMinutes = task.timeoutMinutes ?? this.config.timeoutMinutes
+      claudeRunner = this.createRunner(
+        this.stateManager,
+        this.projectDir,
+        timeoutMinutes * 60 * 1000,
+        worktreePath,
+        this.resolveAgentOptions(task)
       )
-      claudeRunner = new ClaudeRunner(this.stateManager, this.projectDir, 60 * 60 * 1000, worktreePath)
-      console.log(chalk.gray(`   Worktree: ${worktreePath}`))
+      console.log(chalk.gray(`   Worktree: ${worktreePath}${worktree.reused ? ' (continuing existing branch)' : ''}`))
     } catch (error) {
       console.log(chalk.red(`  ❌ Failed to create worktree: ${error instanceof Error ? error.message : String(error)}`))
       return
     }
 
+    // Task frontmatter overrides the project's acceptance commands and validators
+    const validatorPipeline = ValidatorPipeline.forTask(this.config, task)
+    const pathScope = PathScope.forTask(this.config, task)
+
+    this.activeRunners.add(claudeRunner)
+
+    // Spend carried over from previous runs of this task
+    const usageTracker = new UsageTracker(state)
+
     try {
+      // Prepare the worktree before Claude starts; a failure blocks the task instead of using an attempt
+      const bootstrap = new WorktreeBootstrap(this.projectDir, this.config.worktree)
+      if (bootstrap.isConfigured()) {
+        const spinner = ora('Preparing worktree...').start()
+        try {
+          await this.stateManager.appendLog(
+            task.id,
+            `\n${'='.repeat(80)}\nWorktree setup: ${task.id}\nStarted: ${new Date().toISOString()}\n${'='.repeat(80)}\n\n`
+          )
+          await bootstrap.run(worktreePath, (text) => this.stateManager.appendLog(task.id, text))
+          spinner.succeed('Worktree prepared')
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          spinner.fail(`Worktree setup failed: ${message}`)
+          state = this.buildSupervisorState(
+            task,
+            state,
+            'SETUP_FAILED',
+            `Worktree setup failed: ${message} (output is in the task log)`,
+            state?.attemptNumber ?? 1
+          )
+          await this.stateManager.saveState({ ...state, ...usageTracker.toState(), baseRef, baseSha })
+          return
+        }
+      }
+
       // Execute task with retries
-      const maxAttempts = 3
+      let maxAttempts = options.maxAttempts ?? 3
+      let message = options.message
       let lastValidation: ValidationResult | undefined
+      let conflictPrompt: string | undefined
+      let conflictInto: string | undefined // Branch integration conflicted with, re-integrated once resolved
+
+      if (resolvingConflict && state) {
+        // Rebase onto the task's own base, never the integration branch: that would pull every other
+        // task's merged commits into this branch (and its pull request)
+        conflictInto = state.conflict?.into
+        const onto =
+          baseRef ??
+          (state.pullRequest
+            ? await this.worktreeManager.resolveBaseRef(state.pullRequest.base, this.config.baseRemote)
+            : await this.worktreeManager.getProjectHead())
+        console.log(chalk.blue(`  🔀 Rebasing onto ${onto} to resolve the merge conflict`))
+
+        let conflict: RebaseConflict
+        try {
+          conflict = await this.worktreeManager.startRebase(task.id, onto)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          console.log(chalk.red(`  ❌ ${message}`))
+          state = { ...state, status: 'HUMAN_REVIEW_REQUIRED', blockerContext: `Automatic conflict resolution failed: ${message}` }
+          await this.stateManager.saveState(state)
+          return
+        }
+
+        if (conflict.files.length > 0) {
+          console.log(chalk.gray(`   Conflicts in: ${conflict.files.join(', ')}`))
+        }
+        baseRef = conflict.onto
+        baseSha = conflict.ontoSha
+        conflictPrompt = await this.promptBuilder.buildConflictPrompt(
+          task,
+          conflict,
+          this.config.branchPrefix,
+          validatorPipeline.getAcceptanceCommands(),
+          pathScope
+        )
+        state = { ...state, status: 'NEEDS_RETRY', baseRef, baseSha }
+        maxAttempts = state.attemptNumber + CONFLICT_RESOLUTION_ATTEMPTS
+      }
 
       while (!state || (state.status !== 'VERIFIED_COMPLETE' && !this.isBlocker(state.status))) {
       const attemptNum = (state?.attemptNumber ?? 0) + 1
 
+      if (this.isStopping()) {
+        return
+      }
+
+      const sessionBudget = this.getSessionBudget(task, usageTracker.getTotals().costUsd)
+      if (sessionBudget !== undefined && sessionBudget <= 0) {
+        const spent = usageTracker.getTotals().costUsd
+        console.log(chalk.yellow(`💸 Budget exceeded ($${spent.toFixed(2)} spent)`))
+        state = this.buildSupervisorState(
+          task,
+          state,
+          'BUDGET_EXCEEDED',
+          `Cost budget exhausted after spending $${spent.toFixed(2)} on this task`,
+          Math.max(1, attemptNum - 1)
+        )
+        await this.stateManager.saveState({ ...state, ...usageTracker.toState() })
+        return
+      }
+
       if (attemptNum > maxAttempts) {
         console.log(chalk.red(`❌ Max retries exceeded (${maxAttempts})`))
         state = {
@@ -146,22 +532,122 @@ export class AISupervisor {
 
       console.log(chalk.blue(`\n  🔄 Attempt ${attemptNum}/${maxAttempts}`))
 
+      // What happened in this attempt, recorded in the task's history when it ends
+      const attemptStartedAt = new Date()
+      const attempt: AttemptDetails = { reportedState: null, validationIssues: [] }
+
       try {
-        // Build prompt with retry context and branch prefix
-        const prompt = await this.promptBuilder.buildPrompt(
-          task,
-          state ?? undefined,
-          lastValidation,
-          this.config.branchPrefix
-        )
+        // Continue the previous session with just the feedback, or start fresh with the full prompt
+        // (conflict resolution always starts a fresh session, since the branch has moved under it)
+        const resumeSessionId =
+          !conflictPrompt && (options.resume || this.config.resumeSessions) ? state?.sessionId : undefined
+        const prompt =
+          conflictPrompt ??
+          (state && resumeSessionId
+            ? this.promptBuilder.buildResumePrompt(state, lastValidation, message)
+            : await this.promptBuilder.buildPrompt(
+                task,
+                state ?? undefined,
+                lastValidation,
+                this.config.branchPrefix,
+                validatorPipeline.getAcceptanceCommands(),
+                pathScope
+              ))
+        message = undefined
+        conflictPrompt = undefined
+
+        if (resumeSessionId) {
+          console.log(chalk.gray(`   Resuming session ${resumeSessionId}`))
+        }
 
         // Execute Claude Code (output streams in real-time)
-        state = await claudeRunner.run(task.id, prompt)
+        let sessionState: TaskState
+        try {
+          sessionState = await claudeRunner.run(task.id, prompt, {
+            maxBudgetUsd: this.getSessionBudget(task, usageTracker.getTotals().costUsd, claudeRunner),
+            resumeSessionId,
+            pathScope,
+            secretScanner: this.logRedactor,
+            attempt: attemptNum,
+            acceptanceCommands: validatorPipeline.getAcceptanceCommands(),
+          })
+        } finally {
+          usageTracker.record(attemptNum, claudeRunner.getLastUsage())
+          this.recordRunSpend(claudeRunner)
+          attempt.commands = claudeRunner.getLastCommands()
+          attempt.pathDenials = claudeRunner.getLastDenials()
+          if (attempt.pathDenials.length > 0) {
+            console.log(chalk.yellow(`   ⛔ Refused ${attempt.pathDenials.length} edit(s) outside the task's path scope`))
+          }
+        }
+        attempt.reportedState = sessionState
+        state = {
+          ...sessionState,
+          ...usageTracker.toState(),
+          // The supervisor counts attempts, whatever number the session wrote
+          attemptNumber: attemptNum,
+          sessionId: claudeRunner.getLastSessionId() ?? resumeSessionId,
+          baseRef,
+          baseSha,
+          ...this.carriedState(state, attempt),
+        }
 
         // Validate outputs
         const spinner2 = ora('Validating outputs...').start()
         lastValidation = OutputValidator.validate(state.gitStatus)
 
+        // Completion claims are checked against the real repository, not just the state file
+        if (state.status === 'VERIFIED_COMPLETE' || state.status === 'TASK_COMPLETE') {
+          const supervisorIssues = await validatorPipeline.run(
+            {
+              task,
+              state,
+              worktreePath,
+              branch: this.worktreeManager.getFeatureBranchName(task.id, this.config.branchPrefix),
+              diff: await new GitVerifier(worktreePath).getDiff(baseSha),
+              commands: claudeRunner.getLastCommands(),
+              acceptanceCommands: validatorPipeline.getAcceptanceCommands(),
+            },
+            (name) => {
+              spinner2.text = `Validating outputs (${name})...`
+            }
+          )
+          lastValidation = {
+            valid: lastValidation.valid && supervisorIssues.length === 0,
+            issues: [...lastValidation.issues, ...supervisorIssues],
+          }
+        }
+
+        attempt.validationIssues = lastValidation.issues
+        await this.logEvent({
+          taskId: task.id,
+          attempt: attemptNum,
+          timestamp: new Date().toISOString(),
+          kind: 'validation',
+          stage: 'pipeline',
+          valid: lastValidation.valid,
+          issues: lastValidation.issues,
+        })
+
+        // A secret that was committed is in the branch history and may need rotating, so a human decides
+        const secrets = lastValidation.issues.filter((issue) => issue.type === 'secret_detected')
+        if (secrets.length > 0) {
+          spinner2.fail(`Found ${secrets.length} possible secret(s) in the diff`)
+          secrets.forEach((issue) => {
+            console.log(chalk.red(`    - ${issue.message}`))
+          })
+          state = {
+            ...state,
+            status: 'HUMAN_REVIEW_REQUIRED',
+            blockerContext: `Possible secrets were added on the branch: ${secrets.map((issue) => issue.message).join('; ')}. Remove them from the branch history and rotate them before retrying`,
+            validationIssues: lastValidation.issues,
+          }
+          await this.stateManager.saveState(state)
+          // Ensure we're on the original branch before continuing
+          await this.ensureOriginalBranch(state)
+          return
+        }
+
         if (!lastValidation.valid) {
           spinner2.warn(`Found ${lastValidation.issues.length} issue(s)`)
 
@@ -171,13 +657,15 @@ export class AISupervisor {
           })
 
           // Create feedback for next attempt
+          attempt.feedback = {
+            issues: lastValidation.issues.map((i) => i.message),
+            instruction: 'Please fix the following issues and try again',
+          }
           state = {
             ...state,
             status: 'NEEDS_RETRY',
-            feedback: {
-              issues: lastValidation.issues.map((i) => i.message),
-              instruction: 'Please fix the following issues and try again',
-            },
+            feedback: attempt.feedback,
+            validationIssues: lastValidation.issues,
           }
 
           await this.stateManager.saveState(state)
@@ -186,10 +674,92 @@ export class AISupervisor {
           spinner2.succeed('All validations passed')
         }
 
+        // A second, read-only agent judges the diff against the task before it counts as complete
+        if (state.status === 'VERIFIED_COMPLETE' && this.config.review) {
+          const verdict = await this.runReview(task, state, worktreePath, baseSha, usageTracker, attemptNum)
+          // Consecutive rejections escalate; an approval starts the count again
+          const rejections = verdict.approved ? 0 : (state.reviewer?.rejections ?? 0) + 1
+          state = {
+            ...state,
+            ...usageTracker.toState(),
+            reviewer: { ...verdict, reviewedAt: new Date().toISOString(), rejections },
+          }
+          if (verdict.approved) {
+            await this.logEvent({
+              taskId: task.id,
+              attempt: attemptNum,
+              timestamp: new Date().toISOString(),
+              kind: 'validation',
+              stage: 'review',
+              valid: true,
+              issues: [],
+            })
+          }
+
+          if (!verdict.approved) {
+            const findings: ValidationIssue[] = verdict.findings.map((finding) => ({
+              type: 'review_rejected',
+              message: `[${finding.severity}] ${finding.file ? `${finding.file}: ` : ''}${finding.message}`,
+            }))
+            if (findings.length === 0) {
+              findings.push({ type: 'review_rejected', message: verdict.summary })
+            }
+            findings.forEach((finding) => console.log(chalk.yellow(`    - ${finding.message}`)))
+            attempt.validationIssues = findings
+            lastValidation = { valid: false, issues: findings }
+            await this.logEvent({
+              taskId: task.id,
+              attempt: attemptNum,
+              timestamp: new Date().toISOString(),
+              kind: 'validation',
+              stage: 'review',
+              valid: false,
+              issues: findings,
+            })
+
+            if (rejections >= this.config.review.maxRejections) {
+              console.log(chalk.red(`❌ Reviewer rejected the work ${rejections} time(s)`))
+              state = {
+                ...state,
+                status: 'HUMAN_REVIEW_REQUIRED',
+                blockerContext: `Reviewer rejected the work ${rejections} time(s): ${verdict.summary}`,
+                validationIssues: findings,
+              }
+              await this.stateManager.saveState(state)
+              // Ensure we're on the original branch before continuing
+              await this.ensureOriginalBranch(state)
+              return
+            }
+
+            attempt.feedback = {
+              issues: findings.map((finding) => finding.message),
+              instruction: 'A reviewer rejected your work. Address these findings and try again',
+            }
+            state = {
+              ...state,
+              status: 'NEEDS_RETRY',
+              feedback: attempt.feedback,
+              validationIssues: findings,
+            }
+            await this.stateManager.saveState(state)
+            continue
+          }
+        }
+
         // Check if Claude claims completion
         if (state.status === 'VERIFIED_COMPLETE') {
           console.log(chalk.green('✅ Task verified complete'))
           await this.stateManager.saveState(state)
+          if (conflictInto) {
+            state = await this.confirmIntegration(task, state, conflictInto)
+            if (state.status !== 'VERIFIED_COMPLETE') {
+              return
+            }
+          }
+          if (task.createPr) {
+            state = await this.publishPullRequest(task, state)
+          }
+          state = await this.updateSourceIssue(task, state)
           return
         }
 
@@ -199,6 +769,15 @@ export class AISupervisor {
           continue
         }
 
+        // Reporting the conflict again means it needs a human, not another automatic retry
+        if (resolvingConflict && state.status === 'MERGE_CONFLICT_DETECTED') {
+          state = {
+            ...state,
+            status: 'HUMAN_REVIEW_REQUIRED',
+            blockerContext: `Automatic conflict resolution failed: ${state.blockerContext || 'conflict reported again'}`,
+          }
+        }
+
         // If blocker, log and continue to next task
         if (this.isBlocker(state.status)) {
           console.log(chalk.yellow(`⚠️  Blocked: ${state.status}`))
@@ -213,15 +792,35 @@ export class AISupervisor {
         console.log(chalk.blue(`   Status: ${state.status}`))
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error)
-        console.log(chalk.red(`  ❌ Error: ${message}`))
+        const interruption = error instanceof TaskInterruptedError ? error : undefined
+        attempt.error = message
+
+        if (interruption) {
+          console.log(chalk.yellow(`  ⏹  ${message}`))
+        } else {
+          console.log(chalk.red(`  ❌ Error: ${message}`))
+        }
 
         // Create error state
+        // A user interrupt leaves the task to be retried on the next run; timeouts need review
+        const statusByReason: Record<string, TaskStatus> = {
+          interrupted: 'NEEDS_RETRY',
+          budget: 'BUDGET_EXCEEDED',
+        }
         state = {
+          ...usageTracker.toState(),
+          sessionId: claudeRunner.getLastSessionId() ?? state?.sessionId,
+          baseRef,
+          baseSha,
+          ...this.carriedState(state, attempt),
           taskId: task.id,
-          status: 'HUMAN_REVIEW_REQUIRED',
-          blockerContext: `Error during execution: ${message}`,
+          status: (interruption && statusByReason[interruption.reason]) || 'HUMAN_REVIEW_REQUIRED',
+          blockerContext: interruption
+            ? `Session aborted (${interruption.reason}): ${message}`
+            : `Error during execution: ${message}`,
           branchPrefix: state?.branchPrefix || this.config.branchPrefix,
-          attemptNumber: attemptNum,
+          // An interrupted attempt doesn't count against the task's retries
+          attemptNumber: interruption?.reason === 'interrupted' ? attemptNum - 1 : attemptNum,
           startedAt: state?.startedAt || new Date().toISOString(),
           completedAt: new Date().toISOString(),
           filesChanged: state?.filesChanged || [],
@@ -238,9 +837,18 @@ export class AISupervisor {
         // Ensure we're on the original branch before continuing
         await this.ensureOriginalBranch(state)
         return
+      } finally {
+        await this.recordAttempt(task.id, attemptNum, attemptStartedAt, state, attempt, usageTracker)
       }
     }
     } finally {
+      this.activeRunners.delete(claudeRunner)
+
+      // Never leave a half-finished rebase behind for the next run to trip over
+      if (resolvingConflict && worktreePath) {
+        await this.worktreeManager.abortRebase(task.id)
+      }
+
       // Sync files from worktree back to main project before cleanup
       if (worktreePath) {
         try {
@@ -251,8 +859,10 @@ export class AISupervisor {
         }
       }
 
-      // Clean up worktree after task completion
-      if (worktreePath) {
+      // Clean up worktree after task completion, unless a blocked task's worktree should be kept for review
+      if (worktreePath && this.config.keepWorktreeOnFailure && state && this.isBlocker(state.status)) {
+        console.log(chalk.gray(`   Worktree kept for inspection: ${worktreePath}`))
+      } else if (worktreePath) {
         try {
           await this.worktreeManager.removeWorktree(task.id)
           console.log(chalk.gray(`   Worktree cleaned up`))
@@ -263,6 +873,256 @@ export class AISupervisor {
     }
   }
 
+  /**
+   * Append a supervisor event to the task's event log (a failure here must not stop the task)
+   */
+  private async logEvent(event: LogEvent): Promise<void> {
+    try {
+      await this.stateManager.appendEvent(event, this.logRedactor)
+    } catch (error) {
+      console.log(chalk.yellow(`   ⚠️  Warning: Failed to write event log: ${error instanceof Error ? error.message : String(error)}`))
+    }
+  }
+
+  /**
+   * Append an attempt to the task's history (a failure here must not stop the task)
+   */
+  private async recordAttempt(
+    taskId: string,
+    attemptNumber: number,
+    startedAt: Date,
+    state: TaskState | null,
+    attempt: AttemptDetails,
+    usageTracker: UsageTracker
+  ): Promise<void> {
+    const completedAt = new Date()
+    const commitSha = await this.worktreeManager.getHeadSha(taskId).catch(() => undefined)
+
+    const record: AttemptRecord = {
+      taskId,
+      attemptNumber,
+      status: state?.status ?? 'HUMAN_REVIEW_REQUIRED',
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      ...attempt,
+      usage: usageTracker.getAttempt(attemptNumber),
+      commitSha,
+      sessionId: state?.sessionId,
+    }
+
+    try {
+      await this.stateManager.saveAttempt(record)
+    } catch (error) {
+      console.log(chalk.yellow(`   ⚠️  Warning: Failed to record attempt history: ${error instanceof Error ? error.message : String(error)}`))
+    }
+  }
+
+  /**
+   * Build a state the supervisor writes on the task's behalf (e.g. when it stops the task)
+   */
+  private buildSupervisorState(
+    task: Task,
+    previous: TaskState | null,
+    status: TaskStatus,
+    blockerContext: string,
+    attemptNumber: number
+  ): TaskState {
+    return {
+      ...previous,
+      taskId: task.id,
+      status,
+      blockerContext,
+      branchPrefix: previous?.branchPrefix || this.config.branchPrefix,
+      attemptNumber,
+      startedAt: previous?.startedAt || new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+      filesChanged: previous?.filesChanged || [],
+      summary: previous?.summary || `Task stopped: ${blockerContext}`,
+      gitStatus: previous?.gitStatus || {
+        branch: '',
+        uncommittedChanges: true,
+        lastCommitMessage: '',
+        lastCommitSha: '',
+      },
+    }
+  }
+
+  /**
+   * Push a verified task's branch and open its pull request, recording it in the task state
+   * Failures are reported but leave the task complete, so the next run can try again
+   */
+  private async publishPullRequest(task: Task, state: TaskState): Promise<TaskState> {
+    if (this.dryRun) {
+      console.log(chalk.gray('   Dry run: not opening a pull request'))
+      return state
+    }
+
+    const spinner = ora('Opening pull request...').start()
+
+    try {
+      const pullRequest = await new PullRequestPublisher(this.projectDir, this.config).publish(task, state)
+      const updated = { ...state, pullRequest }
+      await this.stateManager.saveState(updated)
+      spinner.succeed(`Pull request #${pullRequest.number}: ${pullRequest.url}`)
+      return updated
+    } catch (error) {
+      spinner.fail(`Failed to open pull request: ${error instanceof Error ? error.message : String(error)} (retried on the next run)`)
+      return state
+    }
+  }
+
+  /**
+   * Supervisor-owned fields that must survive Claude rewriting the state file
+   */
+  private carriedState(
+    state: TaskState | null,
+    attempt?: AttemptDetails
+  ): Pick<
+    TaskState,
+    'pullRequest' | 'reviewFeedback' | 'addressedCommentIds' | 'sourceIssueUpdatedAt' | 'reviewer' | 'pathDenials'
+  > {
+    // Denials accumulate over attempts, so the state shows every refused edit (once, even if the
+    // attempt's denials are carried again after the state was reloaded from disk)
+    const previous = state?.pathDenials ?? []
+    const isRecorded = (denial: PathDenial) =>
+      previous.some((p) => p.deniedAt === denial.deniedAt && p.path === denial.path && p.tool === denial.tool)
+    const pathDenials = [...previous, ...(attempt?.pathDenials ?? []).filter((denial) => !isRecorded(denial))]
+
+    return {
+      pullRequest: state?.pullRequest,
+      reviewFeedback: state?.reviewFeedback,
+      addressedCommentIds: state?.addressedCommentIds,
+      sourceIssueUpdatedAt: state?.sourceIssueUpdatedAt,
+      reviewer: state?.reviewer,
+      pathDenials: pathDenials.length > 0 ? pathDenials : undefined,
+    }
+  }
+
+  /**
+   * Integrate again into the branch a resolved conflict was reported against, to confirm the
+   * rebased branch now combines with the branches already there
+   * A branch that still conflicts conflicts with other tasks rather than its base, which needs a human
+   */
+  private async confirmIntegration(task: Task, state: TaskState, into: string): Promise<TaskState> {
+    console.log(chalk.blue(`\n  🔀 Confirming the resolution by integrating into ${into}`))
+
+    const tasks = new DependencyGraph(await this.taskLoader.loadTasks()).getExecutionOrder()
+    const integrator = new Integrator(this.projectDir, this.config, this.stateManager, this.worktreeManager)
+    const integration = this.integrations.then(() => integrator.integrate(tasks, { into }))
+    this.integrations = integration.catch(() => undefined)
+    const result = (await integration).find((r) => r.taskId === task.id)
+    if (!result || result.outcome === 'merged' || result.outcome === 'already_integrated') {
+      return state
+    }
+
+    const flagged = (await this.stateManager.loadState(task.id)) ?? state
+    if (result.outcome !== 'conflict') {
+      return flagged
+    }
+    console.log(chalk.red(`❌ Still conflicts with ${into} after rebasing onto its base`))
+    const escalated: TaskState = {
+      ...flagged,
+      status: 'HUMAN_REVIEW_REQUIRED',
+      blockerContext: `Automatic conflict resolution failed: ${flagged.blockerContext || `still conflicts with ${into}`}`,
+    }
+    await this.stateManager.saveState(escalated)
+    return escalated
+  }
+
+  /**
+   * Run the reviewer agent on a verified task's diff, counting its spend against the task
+   */
+  private async runReview(
+    task: Task,
+    state: TaskState,
+    worktreePath: string,
+    baseSha: string,
+    usageTracker: UsageTracker,
+    attemptNum: number
+  ): Promise<ReviewVerdict> {
+    const reviewer = new Reviewer(
+      this.stateManager,
+      this.projectDir,
+      worktreePath,
+      this.config.review!,
+      this.resolveAgentOptions(task),
+      this.createRunner
+    )
+    const runner = reviewer.getRunner()
+    console.log(chalk.blue('\n  🔍 Reviewing the diff'))
+
+    this.activeRunners.add(runner)
+    try {
+      const patch = await new GitVerifier(worktreePath).getPatch(baseSha)
+      const verdict = await reviewer.review(task, state, patch, {
+        maxBudgetUsd: this.getSessionBudget(task, usageTracker.getTotals().costUsd, runner),
+        secretScanner: this.logRedactor,
+        attempt: attemptNum,
+      })
+
+      if (verdict.approved) {
+        console.log(chalk.green(`   Reviewer approved: ${verdict.summary}`))
+      } else {
+        console.log(chalk.yellow(`   Reviewer rejected: ${verdict.summary}`))
+      }
+      return verdict
+    } finally {
+      this.activeRunners.delete(runner)
+      usageTracker.record(attemptNum, runner.getLastUsage())
+      this.recordRunSpend(runner)
+    }
+  }
+
+  /**
+   * Comment on (and optionally close) the issue a completed task was imported from, once
+   * Failures are reported but leave the task complete, so the next run can try again
+   */
+  private async updateSourceIssue(task: Task, state: TaskState): Promise<TaskState> {
+    const action = this.config.github.onIssueComplete
+    if (!action || !task.sourceIssue || state.sourceIssueUpdatedAt) {
+      return state
+    }
+    if (this.dryRun) {
+      console.log(chalk.gray(`   Dry run: not updating issue ${task.sourceIssue}`))
+      return state
+    }
+
+    try {
+      const source = IssueImporter.parseSourceIssue(task.sourceIssue)
+      if (!source) {
+        throw new Error(`sourceIssue must look like "owner/name#123", got "${task.sourceIssue}"`)
+      }
+
+      let body = `${CLAUDEFATHER_COMMENT_MARKER}\nCompleted by task \`${task.id}\``
+      body += state.pullRequest ? ` in ${state.pullRequest.url}.` : ` on branch \`${state.branchPrefix || this.config.branchPrefix}/${task.id}\`.`
+      body += `\n\n${state.summary}\n`
+
+      const client = new GitHubClient(this.projectDir, { ...this.config.github, repo: source.repo })
+      await client.commentOnIssue(source.number, body, action === 'close')
+
+      const updated = { ...state, sourceIssueUpdatedAt: new Date().toISOString() }
+      await this.stateManager.saveState(updated)
+      console.log(chalk.gray(`   ${action === 'close' ? 'Closed' : 'Commented on'} issue ${task.sourceIssue}`))
+      return updated
+    } catch (error) {
+      console.log(
+        chalk.yellow(`   ⚠️  Failed to update issue ${task.sourceIssue}: ${error instanceof Error ? error.message : String(error)} (retried on the next run)`)
+      )
+      return state
+    }
+  }
+
+  /**
+   * Merge project agent options with the task's frontmatter overrides
+   */
+  private resolveAgentOptions(task: Task): AgentOptions {
+    return {
+      ...AgentOptionsSchema.parse(this.config),
+      ...task.agentOptions,
+    }
+  }
+
   /**
    * Check if a status is a blocker (needs human intervention)
    */
@@ -275,6 +1135,8 @@ export class AISupervisor {
       'MISSING_INFORMATION',
       'EXTERNAL_DEPENDENCY_BLOCKED',
       'MERGE_CONFLICT_DETECTED',
+      'BUDGET_EXCEEDED',
+      'SETUP_FAILED',
     ].includes(status)
   }
 
@@ -310,6 +1172,190 @@ export class AISupervisor {
     }
   }
 
+  /**
+   * Continue a task's saved agent session for one more attempt
+   * The optional message is sent to the agent along with the last validation feedback
+   */
+  async resumeTask(taskId: string, message?: string): Promise<void> {
+    const task = await this.taskLoader.loadTask(taskId)
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`)
+    }
+
+    const state = await this.stateManager.loadState(taskId)
+    if (!state?.sessionId) {
+      throw new Error(`Task ${taskId} has no saved session to resume. Use "start" to run it.`)
+    }
+
+    if (state.status === 'VERIFIED_COMPLETE') {
+      console.log(chalk.green(`✅ Task ${taskId} is already complete`))
+      return
+    }
+
+    const projectLock = await this.stateManager.lockProject()
+
+    // Clear any blocker so the task runs again, keeping the feedback from the last attempt
+    await this.stateManager.saveState({ ...state, status: 'NEEDS_RETRY' })
+
+    const onInterrupt = () => this.interrupt()
+    process.on('SIGINT', onInterrupt)
+    try {
+      await this.processTask(task, {
+        resume: true,
+        message,
+        maxAttempts: state.attemptNumber + 1,
+      })
+    } finally {
+      process.off('SIGINT', onInterrupt)
+      await projectLock.release()
+    }
+  }
+
+  /**
+   * Run a new attempt that addresses unresolved review comments and failed checks on the task's PR,
+   * then push and reply to the threads. In watch mode, keep polling until the PR is closed
+   */
+  async addressReview(taskId: string, options: AddressReviewOptions = {}): Promise<void> {
+    const task = await this.taskLoader.loadTask(taskId)
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`)
+    }
+
+    const client = new GitHubClient(this.projectDir, this.config.github)
+    const intervalMs = (options.intervalMinutes ?? 5) * 60 * 1000
+
+    const onInterrupt = () => this.interrupt()
+    process.on('SIGINT', onInterrupt)
+    try {
+      while (!this.isStopping()) {
+        const state = await this.stateManager.loadState(taskId)
+        if (!state?.pullRequest) {
+          throw new Error(`Task ${taskId} has no pull request. Set createPr: true and run "start" first.`)
+        }
+
+        if (options.watch && !(await client.getOpenPullRequest(state.pullRequest.number))) {
+          console.log(chalk.gray(`PR #${state.pullRequest.number} is closed or merged, stopping`))
+          return
+        }
+
+        const addressed = await this.addressReviewRound(task, state, client)
+        if (!options.watch || !addressed) {
+          return
+        }
+
+        console.log(chalk.gray(`\nChecking PR #${state.pullRequest.number} again in ${options.intervalMinutes ?? 5} minute(s) (Ctrl+C to stop)`))
+        const deadline = Date.now() + intervalMs
+        while (!this.isStopping() && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 1000))
+        }
+      }
+    } finally {
+      process.off('SIGINT', onInterrupt)
+    }
+  }
+
+  /**
+   * Address the PR's current feedback, if any
+   * Returns false if the task could not address it, so watch mode stops
+   */
+  private async addressReviewRound(task: Task, state: TaskState, client: GitHubClient): Promise<boolean> {
+    const pullRequest = state.pullRequest!
+    const review = this.pendingReview(await client.getReviewFeedback(pullRequest.number), state)
+    if (review.threads.length === 0 && review.failedChecks.length === 0) {
+      console.log(chalk.green(`✅ Nothing to address on PR #${pullRequest.number}`))
+      return true
+    }
+
+    console.log(
+      chalk.blue(
+        `💬 PR #${pullRequest.number}: ${review.threads.length} unresolved thread(s), ${review.failedChecks.length} failed check(s)`
+      )
+    )
+
+    const projectLock = await this.stateManager.lockProject()
+    try {
+      await this.stateManager.saveState({ ...state, status: 'NEEDS_RETRY', reviewFeedback: review })
+      await this.processTask(task, { maxAttempts: state.attemptNumber + REVIEW_ATTEMPTS })
+
+      const updated = await this.stateManager.loadState(task.id)
+      if (updated?.status !== 'VERIFIED_COMPLETE') {
+        console.log(chalk.yellow(`⚠️  Review feedback not addressed (${updated?.status ?? 'no state'})`))
+        return false
+      }
+
+      // The branch must have moved and been pushed before telling reviewers it is addressed
+      const pushedSha = updated.pullRequest?.headSha
+      const { stdout: branchSha } = await execa(
+        'git',
+        ['rev-parse', `refs/heads/${this.worktreeManager.getFeatureBranchName(task.id, updated.branchPrefix || this.config.branchPrefix)}`],
+        { cwd: this.projectDir }
+      )
+      if (!pushedSha || pushedSha !== branchSha.trim() || pushedSha === review.headSha) {
+        console.log(chalk.yellow('⚠️  No new commits were pushed, so review threads were not answered'))
+        return false
+      }
+
+      const addressedIds = new Set(updated.addressedCommentIds ?? [])
+      for (const thread of review.threads) {
+        thread.comments.forEach((comment) => addressedIds.add(comment.id))
+        try {
+          addressedIds.add(await client.replyToReviewComment(pullRequest.number, thread.commentId, `Addressed in ${pushedSha.slice(0, 7)}.`))
+        } catch (error) {
+          console.log(chalk.yellow(`   ⚠️  Could not reply to ${thread.path}: ${error instanceof Error ? error.message : String(error)}`))
+        }
+      }
+
+      await this.stateManager.saveState({
+        ...updated,
+        reviewFeedback: undefined,
+        addressedCommentIds: [...addressedIds],
+      })
+      console.log(chalk.green(`✅ Review feedback addressed and pushed (${pushedSha.slice(0, 7)})`))
+      return true
+    } finally {
+      await projectLock.release()
+    }
+  }
+
+  /**
+   * Drop review threads whose comments have all been addressed already
+   */
+  private pendingReview(review: ReviewFeedback, state: TaskState): ReviewFeedback {
+    const addressed = new Set(state.addressedCommentIds ?? [])
+    return {
+      ...review,
+      threads: review.threads.filter((thread) => thread.comments.some((comment) => !addressed.has(comment.id))),
+    }
+  }
+
+  /**
+   * Create or update task files from the open GitHub issues with a label
+   */
+  async importGitHubIssues(options: { label: string; repo?: string }): Promise<IssueImportResult[]> {
+    const client = new GitHubClient(this.projectDir, { ...this.config.github, repo: options.repo ?? this.config.github.repo })
+    const { owner, repo } = await client.getRepo()
+    console.log(chalk.bold(`\n📥 Importing issues labelled "${options.label}" from ${owner}/${repo}\n`))
+
+    const results = await new IssueImporter(this.taskLoader, client).import(options.label)
+
+    for (const result of results) {
+      const line = `#${result.issue} → ${result.taskId}`
+      if (result.outcome === 'created') {
+        console.log(chalk.green(`   ✅ Created ${line}`))
+      } else if (result.outcome === 'updated') {
+        console.log(chalk.blue(`   🔄 Updated ${line}`))
+      } else {
+        console.log(chalk.gray(`   ⏭  Unchanged ${line}`))
+      }
+    }
+
+    if (results.length === 0) {
+      console.log(chalk.gray('   No open issues with that label'))
+    }
+
+    return results
+  }
+
   /**
    * Reset a task to pending state
    */
@@ -348,21 +1394,24 @@ export class AISupervisor {
     if (completed.length > 0) {
       console.log(chalk.green(`✅ Completed: ${completed.length}`))
       completed.forEach((s) => {
-        console.log(chalk.gray(`   ${s.taskId} (attempt ${s.attemptNumber})`))
+        console.log(chalk.gray(`   ${s.taskId} (attempt ${s.attemptNumber}${this.formatSpend(s)})`))
+        if (s.pullRequest) {
+          console.log(chalk.gray(`     PR #${s.pullRequest.number}: ${s.pullRequest.url}`))
+        }
       })
     }
 
     if (inProgress.length > 0) {
       console.log(chalk.blue(`\n🔄 In Progress: ${inProgress.length}`))
       inProgress.forEach((s) => {
-        console.log(chalk.gray(`   ${s.taskId} (attempt ${s.attemptNumber})`))
+        console.log(chalk.gray(`   ${s.taskId} (attempt ${s.attemptNumber}${this.formatSpend(s)})`))
       })
     }
 
     if (blocked.length > 0) {
       console.log(chalk.yellow(`\n⚠️  Blocked: ${blocked.length}`))
       blocked.forEach((s) => {
-        console.log(chalk.gray(`   ${s.taskId}: ${s.status}`))
+        console.log(chalk.gray(`   ${s.taskId}: ${s.status}${s.usage ? ` ($${s.usage.costUsd.toFixed(2)})` : ''}`))
       })
     }
 
@@ -373,6 +1422,205 @@ export class AISupervisor {
       })
     }
 
+    const spent = [...completed, ...inProgress, ...blocked].reduce(
+      (total, s) => UsageTracker.add(total, s.usage ?? UsageTracker.empty()),
+      UsageTracker.empty()
+    )
+    if (spent.costUsd > 0) {
+      console.log(
+        chalk.gray(
+          `\n💸 Spend: $${spent.costUsd.toFixed(2)} (${spent.inputTokens} input / ${spent.outputTokens} output tokens)`
+        )
+      )
+    }
+
+    console.log('')
+  }
+
+  /**
+   * Show every recorded attempt for a task: what Claude claimed and what the supervisor sent back
+   */
+  async getHistory(taskId: string, json = false): Promise<void> {
+    const history = await this.stateManager.getHistory(taskId)
+
+    if (json) {
+      console.log(JSON.stringify(history, null, 2))
+      return
+    }
+
+    if (history.length === 0) {
+      console.log(chalk.yellow(`⚠️  No attempts recorded for ${taskId}`))
+      return
+    }
+
+    console.log(chalk.bold(`\n📜 History: ${taskId} (${history.length} attempt(s))\n`))
+
+    for (const record of history) {
+      const color = record.status === 'VERIFIED_COMPLETE' ? chalk.green : this.isBlocker(record.status) ? chalk.yellow : chalk.blue
+      const duration = `${Math.round(record.durationMs / 1000)}s`
+      const cost = record.usage ? `, $${record.usage.costUsd.toFixed(2)}, ${record.usage.turns} turns` : ''
+
+      console.log(color(`Attempt ${record.attemptNumber}: ${record.status}`))
+      console.log(chalk.gray(`   ${record.startedAt} (${duration}${cost})`))
+      if (record.commitSha) {
+        console.log(chalk.gray(`   Commit: ${record.commitSha.substring(0, 12)}`))
+      }
+
+      if (record.reportedState) {
+        console.log(`   Claimed: ${record.reportedState.status} - ${record.reportedState.summary}`)
+        if (record.reportedState.blockerContext) {
+          console.log(chalk.gray(`   Blocker: ${record.reportedState.blockerContext}`))
+        }
+      }
+
+      if (record.error) {
+        console.log(chalk.red(`   Error: ${record.error}`))
+      }
+
+      record.validationIssues.forEach((issue) => {
+        console.log(chalk.yellow(`   - [${issue.type}] ${issue.message}`))
+      })
+
+      if (record.feedback) {
+        console.log(chalk.gray(`   Feedback sent: ${record.feedback.instruction}`))
+      }
+
+      console.log('')
+    }
+  }
+
+  /**
+   * Merge completed task branches into an integration branch in dependency order
+   * Returns the per-task results; conflicting tasks are flagged MERGE_CONFLICT_DETECTED
+   */
+  async integrate(options: IntegrateOptions): Promise<IntegrationResult[]> {
+    const tasks = new DependencyGraph(await this.taskLoader.loadTasks()).getExecutionOrder()
+
+    const projectLock = await this.stateManager.lockProject()
+    try {
+      console.log(chalk.bold(`\n🔀 Integrating completed tasks into ${options.into}\n`))
+
+      const integrator = new Integrator(this.projectDir, this.config, this.stateManager, this.worktreeManager)
+      const results = await integrator.integrate(tasks, options)
+
+      const merged = results.filter((r) => r.outcome === 'merged').length
+      const failed = results.filter((r) => r.outcome === 'conflict' || r.outcome === 'verify_failed').length
+      const skipped = results.filter((r) => r.outcome === 'skipped').length
+
+      if (results.length === 0) {
+        console.log(chalk.yellow('⚠️  No VERIFIED_COMPLETE tasks to integrate'))
+      } else if (failed > 0 || skipped > 0) {
+        console.log(chalk.yellow(`\n⚠️  Merged ${merged} task(s) into ${options.into}; ${failed} failed, ${skipped} skipped\n`))
+      } else {
+        console.log(chalk.green(`\n✅ Merged ${merged} task(s) into ${options.into}\n`))
+      }
+
+      return results
+    } finally {
+      await projectLock.release()
+    }
+  }
+
+  /**
+   * List task worktrees with their task's status, branch, age and uncommitted changes
+   */
+  async listWorktrees(): Promise<void> {
+    const worktrees = await this.worktreeManager.listTaskWorktrees()
+
+    if (worktrees.length === 0) {
+      console.log(chalk.gray('No task worktrees'))
+      return
+    }
+
+    const taskIds = new Set((await this.taskLoader.loadTasks()).map((t) => t.id))
+
+    console.log(chalk.bold(`\n🌳 Worktrees: ${worktrees.length}\n`))
+    for (const worktree of worktrees) {
+      const state = await this.stateManager.loadState(worktree.taskId).catch(() => null)
+      const orphaned = !worktree.registered || !taskIds.has(worktree.taskId)
+      const status = orphaned ? 'ORPHANED' : (state?.status ?? 'NO STATE')
+      const color = orphaned ? chalk.red : status === 'VERIFIED_COMPLETE' ? chalk.green : this.isBlocker(status) ? chalk.yellow : chalk.blue
+
+      const details = [
+        worktree.registered ? (worktree.branch ?? 'detached HEAD') : 'not tracked by git',
+        worktree.createdAt ? `${this.formatAge(worktree.createdAt)} old` : 'age unknown',
+      ]
+      if (worktree.dirty) {
+        details.push('uncommitted changes')
+      }
+
+      console.log(color(`   ${worktree.taskId}: ${status}`))
+      console.log(chalk.gray(`      ${details.join(', ')}`))
+    }
     console.log('')
   }
+
+  /**
+   * Print the path of a task's worktree
+   */
+  async openWorktree(taskId: string): Promise<void> {
+    const worktree = (await this.worktreeManager.listTaskWorktrees()).find((w) => w.taskId === taskId)
+    if (!worktree) {
+      throw new Error(`No worktree for task ${taskId}`)
+    }
+
+    console.log(worktree.path)
+  }
+
+  /**
+   * Remove worktrees of completed tasks and orphans (worktrees git lost track of, or of deleted tasks)
+   * `all` removes every task worktree; `force` also removes ones with uncommitted changes
+   */
+  async cleanWorktrees(options: { all?: boolean; force?: boolean } = {}): Promise<void> {
+    // Don't pull worktrees out from under a running supervisor
+    const projectLock = await this.stateManager.lockProject()
+
+    try {
+      const worktrees = await this.worktreeManager.listTaskWorktrees()
+      const taskIds = new Set((await this.taskLoader.loadTasks()).map((t) => t.id))
+      let removed = 0
+
+      for (const worktree of worktrees) {
+        const orphaned = !worktree.registered || !taskIds.has(worktree.taskId)
+        const state = orphaned ? null : await this.stateManager.loadState(worktree.taskId).catch(() => null)
+
+        if (!orphaned && !options.all && state?.status !== 'VERIFIED_COMPLETE') {
+          continue
+        }
+
+        if (worktree.dirty && !options.force) {
+          console.log(chalk.yellow(`⚠️  Skipping ${worktree.taskId}: uncommitted changes (use --force to remove)`))
+          continue
+        }
+
+        if (await this.worktreeManager.removeWorktree(worktree.taskId, orphaned || options.force)) {
+          console.log(chalk.gray(`   Removed ${worktree.taskId}${orphaned ? ' (orphaned)' : ''}`))
+          removed++
+        }
+      }
+
+      await this.worktreeManager.pruneStaleWorktrees()
+      console.log(chalk.green(`✅ Removed ${removed} worktree(s)`))
+    } finally {
+      await projectLock.release()
+    }
+  }
+
+  /**
+   * Format the time since a date, e.g. "5m", "3h" or "2d"
+   */
+  private formatAge(date: Date): string {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000)
+    if (minutes < 60) return `${minutes}m`
+    if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h`
+    return `${Math.floor(minutes / (60 * 24))}d`
+  }
+
+  /**
+   * Format a task's spend for status output
+   */
+  private formatSpend(state: TaskState): string {
+    if (!state.usage) return ''
+    return `, $${state.usage.costUsd.toFixed(2)}, ${state.usage.turns} turns`
+  }
 }
@@ -2,6 +2,12 @@ import { readdir, readFile, mkdir } from 'fs/promises';
 import { join, resolve, isAbsolute } from 'path';
 import matter from 'gray-matter';
 import { Task } from './types.js';
+import {
+  AgentOptionsSchema,
+  ValidatorsConfigSchema,
+  type AgentOptions,
+  type ValidatorsConfig,
+} from './schemas.js';
 
 /**
  * Loads tasks from markdown files in .claudefather/tasks directory
@@ -39,18 +45,10 @@ export class TaskLoader {
         const filePath = join(this.taskDir, file);
         const content = await readFile(filePath, 'utf-8');
 
-        // Parse frontmatter if present
-        const { data: metadata, content: taskContent } = matter(content);
-
         // Extract task ID from filename (e.g., "001-implement-auth.md" -> "001-implement-auth")
         const taskId = file.replace(/\.md$/, '');
 
-        tasks.push({
-          id: taskId,
-          file: filePath,
-          content: taskContent.trim(),
-          metadata: metadata as Record<string, unknown>,
-        });
+        tasks.push(this.parseTask(taskId, filePath, content));
       }
 
       return tasks;
@@ -71,14 +69,7 @@ export class TaskLoader {
 
     try {
       const content = await readFile(taskFile, 'utf-8');
-      const { data: metadata, content: taskContent } = matter(content);
-
-      return {
-        id: taskId,
-        file: taskFile,
-        content: taskContent.trim(),
-        metadata: metadata as Record<string, unknown>,
-      };
+      return this.parseTask(taskId, taskFile, content);
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         return null;
@@ -87,10 +78,127 @@ export class TaskLoader {
     }
   }
 
+  /**
+   * Parse a task file's frontmatter and body into a Task
+   */
+  private parseTask(taskId: string, filePath: string, raw: string): Task {
+    const { data: metadata, content: taskContent } = matter(raw);
+
+    return {
+      id: taskId,
+      file: filePath,
+      content: taskContent.trim(),
+      metadata: metadata as Record<string, unknown>,
+      dependsOn: this.parseStringList(taskId, 'dependsOn', metadata.dependsOn),
+      verify: this.parseStringList(taskId, 'verify', metadata.verify),
+      validators: this.parseValidators(taskId, metadata.validators),
+      timeoutMinutes: this.parsePositiveNumber(taskId, 'timeoutMinutes', metadata.timeoutMinutes),
+      agentOptions: this.parseAgentOptions(taskId, metadata),
+      maxCostUsd: this.parsePositiveNumber(taskId, 'maxCostUsd', metadata.maxCostUsd),
+      baseBranch: this.parseString(taskId, 'baseBranch', metadata.baseBranch),
+      createPr: this.parseBoolean(taskId, 'createPr', metadata.createPr),
+      title: this.parseString(taskId, 'title', metadata.title),
+      labels: this.parseStringList(taskId, 'labels', metadata.labels),
+      sourceIssue: this.parseString(taskId, 'sourceIssue', metadata.sourceIssue),
+      allowedPaths: this.parseStringList(taskId, 'allowedPaths', metadata.allowedPaths),
+      forbiddenPaths: this.parseStringList(taskId, 'forbiddenPaths', metadata.forbiddenPaths),
+    };
+  }
+
+  /**
+   * Pick agent options (model, maxTurns, tools, ...) out of the frontmatter
+   */
+  private parseAgentOptions(taskId: string, metadata: Record<string, unknown>): AgentOptions {
+    const result = AgentOptionsSchema.safeParse(metadata);
+    if (!result.success) {
+      throw new Error(`Invalid agent options in task ${taskId}: ${result.error.message}`);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Validate numeric frontmatter such as `timeoutMinutes` or `maxCostUsd`
+   */
+  private parsePositiveNumber(taskId: string, key: string, value: unknown): number | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid ${key} in task ${taskId}: expected a positive number`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Validate string frontmatter such as `baseBranch`
+   */
+  private parseString(taskId: string, key: string, value: unknown): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`Invalid ${key} in task ${taskId}: expected a non-empty string`);
+    }
+
+    return value.trim();
+  }
+
+  /**
+   * Validate boolean frontmatter such as `createPr`
+   */
+  private parseBoolean(taskId: string, key: string, value: unknown): boolean | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    if (typeof value !== 'boolean') {
+      throw new Error(`Invalid ${key} in task ${taskId}: expected true or false`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Validate `validators` frontmatter against the same schema as .claudefatherrc
+   */
+  private parseValidators(taskId: string, value: unknown): ValidatorsConfig | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const result = ValidatorsConfigSchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(`Invalid validators in task ${taskId}: ${result.error.message}`);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Normalize list frontmatter such as `dependsOn` or `verify` (a single string or a list of strings)
+   */
+  private parseStringList(taskId: string, key: string, value: unknown): string[] | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const items = Array.isArray(value) ? value : [value];
+    if (!items.every((item) => typeof item === 'string' && item.trim().length > 0)) {
+      throw new Error(`Invalid ${key} in task ${taskId}: expected a string or a list of strings`);
+    }
+
+    return items.map((item: string) => item.trim());
+  }
+
   /**
    * Create a new task file
+   * With taskId 'auto', the ID is the next number plus a slug of the description (or fallbackSlug)
    */
-  async createTask(taskId: string, description: string): Promise<Task> {
+  async createTask(taskId: string, description: string, fallbackSlug: string = 'task'): Promise<Task> {
     // Find highest numbered file to generate next ID if not provided
     const tasks = await this.loadTasks();
     let finalId = taskId;
@@ -108,9 +216,11 @@ export class TaskLoader {
         .replace(/[^\w\s-]/g, '')
         .trim()
         .replace(/\s+/g, '-')
-        .substring(0, 50);
+        .substring(0, 50)
+        .replace(/^-+|-+$/g, '');
 
-      finalId = `${nextNum}-${slug}`;
+      // A description without ASCII letters or digits (e.g. CJK or only emoji) leaves nothing to slugify
+      finalId = `${nextNum}-${slug || fallbackSlug}`;
     }
 
     const content = `# ${description}\n\n(Add task details here)\n`;
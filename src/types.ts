@@ -1,3 +1,5 @@
+import type { AgentOptions, ValidatorsConfig } from './schemas.js';
+
 /**
  * Task status enum - defines all possible states
  */
@@ -11,6 +13,8 @@ export type TaskStatus =
   | 'MISSING_INFORMATION'
   | 'EXTERNAL_DEPENDENCY_BLOCKED'
   | 'MERGE_CONFLICT_DETECTED'
+  | 'BUDGET_EXCEEDED'
+  | 'SETUP_FAILED'
   | 'NEEDS_RETRY';
 
 /**
@@ -44,8 +48,19 @@ export interface Workaround {
  * Validation issue found by supervisor
  */
 export interface ValidationIssue {
-  type: 'exit_code_mismatch' | 'invalid_format' | 'suspicious_content' | 'git_inconsistency';
+  type:
+    | 'exit_code_mismatch'
+    | 'invalid_format'
+    | 'suspicious_content'
+    | 'git_inconsistency'
+    | 'missing_file'
+    | 'diff_too_large'
+    | 'forbidden_path'
+    | 'banned_pattern'
+    | 'review_rejected'
+    | 'secret_detected';
   message: string;
+  output?: string; // Tail of command output, when the issue comes from a command the supervisor ran
 }
 
 /**
@@ -56,6 +71,25 @@ export interface RetryFeedback {
   instruction: string;
 }
 
+/**
+ * Cost and token usage reported by the SDK for one or more sessions
+ */
+export interface SessionUsage {
+  costUsd: number;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+}
+
+/**
+ * Usage of a single attempt
+ */
+export interface AttemptUsage extends SessionUsage {
+  attemptNumber: number;
+}
+
 /**
  * Main task state - written by Claude, read by supervisor
  */
@@ -82,6 +116,156 @@ export interface TaskState {
   // Added by supervisor for retries
   feedback?: RetryFeedback;
   validationIssues?: ValidationIssue[];
+
+  // Added by supervisor to track spend
+  usage?: SessionUsage; // Cumulative across attempts
+  attemptUsage?: AttemptUsage[];
+
+  // Added by supervisor so retries can continue the agent session
+  sessionId?: string;
+
+  // Added by supervisor: what the task's branch was started from
+  baseRef?: string;
+  baseSha?: string;
+
+  // Added by supervisor when the task's branch conflicts with another branch
+  conflict?: MergeConflict;
+
+  // Added by supervisor after opening the task's pull request
+  pullRequest?: PullRequestInfo;
+
+  // Added by supervisor when addressing pull request review feedback
+  reviewFeedback?: ReviewFeedback; // Feedback the next attempt must address
+  addressedCommentIds?: number[]; // Review comments already handled (including the supervisor's replies)
+
+  // Added by supervisor after commenting on (or closing) the task's source issue
+  sourceIssueUpdatedAt?: string;
+
+  // Added by supervisor when the reviewer agent has judged the work
+  reviewer?: ReviewerOutcome;
+
+  // Added by supervisor when edits outside the task's path scope were refused
+  pathDenials?: PathDenial[];
+}
+
+/**
+ * A file edit the supervisor refused because the path is out of the task's scope
+ */
+export interface PathDenial {
+  tool: string; // Write, Edit, ...
+  path: string;
+  reason: string;
+  deniedAt: string; // ISO 8601
+}
+
+/**
+ * A problem the reviewer agent found in the task's diff
+ */
+export interface ReviewFinding {
+  severity: 'blocker' | 'major' | 'minor';
+  message: string;
+  file?: string;
+}
+
+/**
+ * The reviewer agent's structured answer
+ */
+export interface ReviewVerdict {
+  approved: boolean;
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+/**
+ * The latest verdict, as saved in the task state
+ */
+export interface ReviewerOutcome extends ReviewVerdict {
+  reviewedAt: string; // ISO 8601
+  rejections: number; // Rejections so far for this task
+}
+
+/**
+ * Unresolved review comments and failed checks on a task's pull request
+ */
+export interface ReviewFeedback {
+  headSha: string; // Commit the feedback was left on
+  threads: ReviewThread[];
+  failedChecks: string[];
+}
+
+/**
+ * An unresolved review thread (the first comment's ID is used to reply to it)
+ */
+export interface ReviewThread {
+  commentId: number;
+  path: string;
+  line?: number;
+  comments: ReviewComment[];
+}
+
+export interface ReviewComment {
+  id: number;
+  author: string;
+  body: string;
+}
+
+/**
+ * Pull request the supervisor opened for a task's branch
+ */
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  branch: string; // Head branch
+  base: string; // Branch the pull request merges into
+  headSha?: string; // Commit the supervisor last pushed
+}
+
+/**
+ * A rebase the supervisor started to bring a conflicting task branch up to date
+ */
+export interface RebaseConflict {
+  onto: string; // Ref the branch is being rebased onto
+  ontoSha: string;
+  files: string[]; // Files with conflicts (empty if the rebase applied cleanly)
+  upstreamCommits: string[]; // One-line summaries of upstream commits touching those files
+}
+
+/**
+ * Branch a task's branch failed to merge into, and the conflicting files
+ */
+export interface MergeConflict {
+  into: string;
+  files: string[];
+}
+
+/**
+ * One attempt at a task, recorded by the supervisor
+ */
+export interface AttemptRecord {
+  taskId: string;
+  attemptNumber: number;
+  status: TaskStatus; // Outcome after the supervisor's checks
+  startedAt: string; // ISO 8601
+  completedAt: string; // ISO 8601
+  durationMs: number;
+  reportedState: TaskState | null; // State file as Claude wrote it (null if the session failed)
+  validationIssues: ValidationIssue[];
+  feedback?: RetryFeedback; // Feedback sent back to Claude for the next attempt
+  usage?: SessionUsage;
+  commitSha?: string; // Worktree HEAD when the attempt ended
+  sessionId?: string;
+  error?: string;
+  commands?: CommandRecord[]; // Bash commands Claude ran during the attempt
+  pathDenials?: PathDenial[]; // Edits refused during the attempt
+}
+
+/**
+ * A Bash command Claude ran, taken from the session transcript
+ */
+export interface CommandRecord {
+  command: string;
+  isError: boolean; // The tool result was flagged as an error (e.g. non-zero exit)
+  output?: string; // Tail of the output, kept for failed commands
 }
 
 /**
@@ -92,6 +276,67 @@ export interface Task {
   file: string;
   content: string;
   metadata?: Record<string, unknown>;
+  dependsOn?: string[]; // Task IDs that must be VERIFIED_COMPLETE before this task starts
+  verify?: string[]; // Acceptance commands the supervisor runs after completion (overrides config)
+  validators?: ValidatorsConfig; // Per-task validator overrides (merged over config)
+  timeoutMinutes?: number; // Session timeout (overrides config)
+  agentOptions?: AgentOptions; // Model, turn limit, tools, etc. (overrides config)
+  maxCostUsd?: number; // Spend limit across all attempts (overrides config)
+  baseBranch?: string; // Ref the task's branch starts from (overrides config)
+  createPr?: boolean; // Push the branch and open a pull request once the task is verified
+  title?: string; // Pull request title
+  labels?: string[]; // Pull request labels
+  sourceIssue?: string; // GitHub issue the task was imported from, as owner/name#123
+  allowedPaths?: string[]; // Globs the task may change (replaces config)
+  forbiddenPaths?: string[]; // Globs the task must not change (added to config)
+}
+
+/**
+ * A file changed on the task branch
+ */
+export interface DiffFile {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * A line added on the task branch
+ */
+export interface AddedLine {
+  path: string;
+  line: number;
+  text: string;
+}
+
+/**
+ * Changes on the task branch since the commit its worktree started from
+ */
+export interface TaskDiff {
+  baseSha: string;
+  files: DiffFile[];
+  addedLines: AddedLine[];
+}
+
+/**
+ * Everything a validator can inspect after Claude reports completion
+ */
+export interface ValidationContext {
+  task: Task;
+  state: TaskState;
+  worktreePath: string;
+  branch: string; // Feature branch the supervisor created for the task
+  diff: TaskDiff;
+  commands: CommandRecord[]; // Bash commands Claude ran in the session that claimed completion
+  acceptanceCommands: string[]; // Commands the `command` validator runs
+}
+
+/**
+ * A check in the supervisor's validation pipeline
+ */
+export interface Validator {
+  name: string;
+  validate(context: ValidationContext): Promise<ValidationIssue[]>;
 }
 
 /**
@@ -112,3 +357,30 @@ export interface StatusSummary {
   pending: Task[];
   totalTime: number;
 }
+
+/**
+ * One line of a task's structured event log (.claudefather/logs/{task-id}.jsonl)
+ */
+export type LogEvent = LogEventBase &
+  (
+    | { kind: 'session_start'; label: string; options: string; resumeSessionId?: string; cwd?: string }
+    | { kind: 'session_end'; outcome: 'completed' | 'interrupted' | 'failed'; message?: string }
+    | { kind: 'assistant_text'; text: string }
+    | { kind: 'tool_call'; tool: string; toolUseId: string; input: Record<string, unknown> }
+    | { kind: 'tool_result'; tool?: string; toolUseId: string; isError: boolean; output: string }
+    | { kind: 'tool_denied'; tool: string; path: string; reason: string }
+    | { kind: 'result'; subtype: string; durationMs: number; turns: number; costUsd: number; text?: string }
+    | { kind: 'validation'; stage: 'pipeline' | 'review'; valid: boolean; issues: ValidationIssue[] }
+    | { kind: 'state_transition'; from?: TaskStatus; to: TaskStatus; reason?: string }
+  );
+
+/**
+ * Fields every log event carries
+ */
+export interface LogEventBase {
+  taskId: string;
+  attempt?: number; // Attempt the event belongs to (absent outside attempts)
+  timestamp: string; // ISO 8601
+}
+
+export type LogEventKind = LogEvent['kind'];
@@ -0,0 +1,83 @@
+import { AttemptUsage, SessionUsage, TaskState } from './types.js';
+
+/**
+ * Accumulates cost and token usage for a task across attempts
+ */
+export class UsageTracker {
+  private attempts: AttemptUsage[];
+
+  constructor(previous?: Pick<TaskState, 'attemptUsage'> | null) {
+    this.attempts = [...(previous?.attemptUsage ?? [])];
+  }
+
+  /**
+   * Empty usage, used as the starting point for sums
+   */
+  static empty(): SessionUsage {
+    return {
+      costUsd: 0,
+      turns: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+    };
+  }
+
+  /**
+   * Add two usage records together
+   */
+  static add(a: SessionUsage, b: SessionUsage): SessionUsage {
+    return {
+      costUsd: a.costUsd + b.costUsd,
+      turns: a.turns + b.turns,
+      inputTokens: a.inputTokens + b.inputTokens,
+      outputTokens: a.outputTokens + b.outputTokens,
+      cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+      cacheCreationInputTokens: a.cacheCreationInputTokens + b.cacheCreationInputTokens,
+    };
+  }
+
+  /**
+   * Record the usage of one session (sessions in the same attempt are summed)
+   */
+  record(attemptNumber: number, usage: SessionUsage | null): void {
+    if (!usage) return;
+
+    const existing = this.attempts.find((a) => a.attemptNumber === attemptNumber);
+    if (existing) {
+      Object.assign(existing, UsageTracker.add(existing, usage));
+    } else {
+      this.attempts.push({ attemptNumber, ...usage });
+    }
+  }
+
+  /**
+   * Total usage across all attempts
+   */
+  getTotals(): SessionUsage {
+    return this.attempts.reduce<SessionUsage>((total, attempt) => UsageTracker.add(total, attempt), UsageTracker.empty());
+  }
+
+  /**
+   * Usage of a single attempt, if any was recorded
+   */
+  getAttempt(attemptNumber: number): SessionUsage | undefined {
+    const attempt = this.attempts.find((a) => a.attemptNumber === attemptNumber);
+    return attempt ? UsageTracker.add(UsageTracker.empty(), attempt) : undefined;
+  }
+
+  /**
+   * Fields to merge into the task state
+   */
+  toState(): Pick<TaskState, 'usage' | 'attemptUsage'> {
+    if (this.attempts.length === 0) {
+      return {};
+    }
+
+    return {
+      usage: this.getTotals(),
+      attemptUsage: this.attempts.map((a) => ({ ...a })),
+    };
+  }
+}
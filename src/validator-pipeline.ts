@@ -0,0 +1,344 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { minimatch } from 'minimatch';
+import { CommandRecord, Task, ValidationContext, ValidationIssue, Validator } from './types.js';
+import type { ValidatorsConfig } from './schemas.js';
+import type { Config } from './config-loader.js';
+import { GitVerifier } from './git-verifier.js';
+import { PathScope } from './path-scope.js';
+import { SecretScanner } from './secret-scanner.js';
+import { VerifyRunner } from './verify-runner.js';
+
+type ValidatorOptions<K extends keyof ValidatorsConfig> = Exclude<ValidatorsConfig[K], false | undefined>;
+
+// `forbiddenPaths` has no validator of its own: its globs join the task's path scope
+type BuiltInValidatorName = Exclude<keyof ValidatorsConfig, 'forbiddenPaths'>;
+
+const MAX_REPORTED_MATCHES = 10;
+
+// Start of a command in a Bash call: the beginning, or after `&&`, `||` or `;`, past any VAR=value
+// assignments and a package runner (with its flags). Keeps `echo "make sure"` or `grep -r jest` from counting
+const COMMAND_START = '(?:^|&&|\\|\\||;)\\s*(?:\\w+=\\S*\\s+)*(?:(?:npx|bunx)(?:\\s+-\\S+)*\\s+|python3? -m\\s+)?';
+
+// Commands that look like a test, build or lint run (used by the transcript validator)
+const DEFAULT_CHECK_PATTERNS = [
+  `${COMMAND_START}(npm|pnpm|yarn|bun)( run)? (test|build|lint|typecheck|check)\\b`,
+  `${COMMAND_START}(jest|vitest|mocha|pytest|rspec|phpunit|tsc|eslint|ruff|flake8|mypy|make)\\b`,
+  `${COMMAND_START}(cargo|go) (test|build|vet|clippy)\\b`,
+];
+
+// ============================================================================
+// Built-in validators
+// ============================================================================
+
+/**
+ * Verifies the claimed git state against the worktree (always enabled)
+ */
+class GitStateValidator implements Validator {
+  name = 'gitState';
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    return new GitVerifier(context.worktreePath).verify(context.state, {
+      branch: context.branch,
+      baseSha: context.diff.baseSha,
+    });
+  }
+}
+
+/**
+ * Rejects changes outside the task's path scope, including edits the pre-tool check can't see (e.g. via Bash)
+ */
+class PathScopeValidator implements Validator {
+  name = 'pathScope';
+
+  constructor(private scope: PathScope) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    return context.diff.files
+      .map((file) => this.scope.check(file.path))
+      .filter((reason): reason is string => reason !== null)
+      .map((reason) => ({ type: 'forbidden_path' as const, message: reason }));
+  }
+}
+
+/**
+ * Blocks credentials added on the task branch (enabled unless `secrets.enabled` is false)
+ */
+class SecretsValidator implements Validator {
+  name = 'secrets';
+
+  constructor(private scanner: SecretScanner) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    const findings = this.scanner.scanLines(context.diff.addedLines);
+    const issues: ValidationIssue[] = findings.slice(0, MAX_REPORTED_MATCHES).map((finding) => ({
+      type: 'secret_detected',
+      message: `Possible ${finding.rule} added at ${finding.path}:${finding.line}`,
+      output: finding.preview,
+    }));
+
+    if (findings.length > MAX_REPORTED_MATCHES) {
+      issues.push({
+        type: 'secret_detected',
+        message: `... and ${findings.length - MAX_REPORTED_MATCHES} more possible secret(s)`,
+      });
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Runs acceptance commands in the worktree
+ */
+class CommandValidator implements Validator {
+  name = 'command';
+
+  constructor(private options: ValidatorOptions<'command'>) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    const runner = new VerifyRunner(context.worktreePath, this.options.timeoutMs);
+    return runner.verify(this.options.commands, context.state.status);
+  }
+}
+
+/**
+ * Requires files to exist in the worktree
+ */
+class RequiredFilesValidator implements Validator {
+  name = 'requiredFiles';
+
+  constructor(private options: ValidatorOptions<'requiredFiles'>) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    return this.options.paths
+      .filter((path) => !existsSync(join(context.worktreePath, path)))
+      .map((path) => ({
+        type: 'missing_file' as const,
+        message: `Required file "${path}" does not exist`,
+      }));
+  }
+}
+
+/**
+ * Limits how many lines and files a task may change
+ */
+class MaxDiffSizeValidator implements Validator {
+  name = 'maxDiffSize';
+
+  constructor(private options: ValidatorOptions<'maxDiffSize'>) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const { files } = context.diff;
+    const changedLines = files.reduce((sum, file) => sum + file.additions + file.deletions, 0);
+
+    if (this.options.maxFiles !== undefined && files.length > this.options.maxFiles) {
+      issues.push({
+        type: 'diff_too_large',
+        message: `Diff touches ${files.length} files (limit ${this.options.maxFiles})`,
+      });
+    }
+
+    if (this.options.maxLines !== undefined && changedLines > this.options.maxLines) {
+      issues.push({
+        type: 'diff_too_large',
+        message: `Diff changes ${changedLines} lines (limit ${this.options.maxLines})`,
+      });
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Cross-checks a completion claim against the Bash commands Claude actually ran:
+ * every acceptance command (or, without any, some test/build/lint command) must have been run,
+ * and the last run of each of them must have succeeded
+ */
+class TranscriptValidator implements Validator {
+  name = 'transcript';
+
+  constructor(private options: ValidatorOptions<'transcript'>) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const patterns = (this.options.checkPatterns ?? DEFAULT_CHECK_PATTERNS).map((pattern) => new RegExp(pattern));
+    const ran = (record: CommandRecord, command: string) => this.normalize(record.command).includes(this.normalize(command));
+
+    for (const command of context.acceptanceCommands) {
+      if (!context.commands.some((record) => ran(record, command))) {
+        issues.push({
+          type: 'suspicious_content',
+          message: `Completion was claimed, but \`${command}\` was never run`,
+        });
+      }
+    }
+
+    const checks = context.commands.filter(
+      (record) =>
+        context.acceptanceCommands.some((command) => ran(record, command)) ||
+        patterns.some((pattern) => pattern.test(record.command))
+    );
+
+    if (context.acceptanceCommands.length === 0 && checks.length === 0) {
+      issues.push({
+        type: 'suspicious_content',
+        message: 'Completion was claimed, but no test, build or lint command was run',
+      });
+    }
+
+    // Only the latest run of each command counts: failing first and fixing it is fine
+    const latest = new Map<string, CommandRecord>();
+    checks.forEach((record) => latest.set(this.normalize(record.command), record));
+    for (const record of latest.values()) {
+      if (record.isError) {
+        issues.push({
+          type: 'suspicious_content',
+          message: `Completion was claimed, but the last run of \`${record.command}\` failed`,
+          output: record.output,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private normalize(command: string): string {
+    return command.replace(/\s+/g, ' ').trim();
+  }
+}
+
+/**
+ * Rejects added lines matching banned regexes (e.g. TODO, it.skip)
+ */
+class BannedPatternsValidator implements Validator {
+  name = 'bannedPatterns';
+
+  constructor(private options: ValidatorOptions<'bannedPatterns'>) {}
+
+  async validate(context: ValidationContext): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+    const { paths } = this.options;
+    const lines = context.diff.addedLines.filter(
+      (line) => !paths || paths.some((glob) => minimatch(line.path, glob, { dot: true }))
+    );
+
+    for (const pattern of this.options.patterns) {
+      // A global regex keeps lastIndex between test() calls, so drop the flag
+      const regex = new RegExp(pattern, this.options.flags?.replace('g', ''));
+      const matches = lines.filter((line) => regex.test(line.text));
+
+      if (matches.length > 0) {
+        const shown = matches
+          .slice(0, MAX_REPORTED_MATCHES)
+          .map((line) => `${line.path}:${line.line}: ${line.text.trim()}`);
+        if (matches.length > MAX_REPORTED_MATCHES) {
+          shown.push(`... and ${matches.length - MAX_REPORTED_MATCHES} more`);
+        }
+
+        issues.push({
+          type: 'banned_pattern',
+          message: `Added lines match banned pattern /${pattern}/ (${matches.length} occurrence(s))`,
+          output: shown.join('\n'),
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Factories for the validators that can be enabled in `validators` config
+ * Ordered cheapest first so fast checks report before slow commands run
+ */
+const BUILT_IN_VALIDATORS: { [K in BuiltInValidatorName]-?: (options: ValidatorOptions<K>) => Validator } = {
+  requiredFiles: (options) => new RequiredFilesValidator(options),
+  maxDiffSize: (options) => new MaxDiffSizeValidator(options),
+  bannedPatterns: (options) => new BannedPatternsValidator(options),
+  transcript: (options) => new TranscriptValidator(options),
+  command: (options) => new CommandValidator(options),
+};
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Runs the configured validators against a task that claims completion
+ */
+export class ValidatorPipeline {
+  private validators: Validator[];
+  private acceptanceCommands: string[];
+
+  constructor(validators: Validator[], acceptanceCommands: string[] = []) {
+    this.validators = validators;
+    this.acceptanceCommands = acceptanceCommands;
+  }
+
+  /**
+   * Build the pipeline for a task from project config and task frontmatter
+   * Task entries replace project entries by name; `false` disables a validator
+   * `verify` commands are shorthand for the `command` validator at the same level
+   */
+  static forTask(
+    config: Pick<Config, 'validators' | 'verify' | 'allowedPaths' | 'forbiddenPaths' | 'secrets'>,
+    task: Task
+  ): ValidatorPipeline {
+    const command =
+      task.validators?.command ??
+      (task.verify ? { commands: task.verify } : undefined) ??
+      config.validators.command ??
+      (config.verify.length > 0 ? { commands: config.verify } : undefined);
+
+    // With acceptance commands, the transcript check is on unless switched off with `false`;
+    // without them it has to be enabled explicitly
+    const resolved: ValidatorsConfig = {
+      ...(command ? { transcript: {} } : {}),
+      ...config.validators,
+      ...task.validators,
+      command,
+    };
+
+    const validators: Validator[] = [new GitStateValidator()];
+    const pathScope = PathScope.forTask(config, task);
+    if (!pathScope.isEmpty()) {
+      validators.push(new PathScopeValidator(pathScope));
+    }
+    if (config.secrets.enabled) {
+      validators.push(new SecretsValidator(new SecretScanner(config.secrets)));
+    }
+    for (const name of Object.keys(BUILT_IN_VALIDATORS) as BuiltInValidatorName[]) {
+      const options = resolved[name];
+      if (options) {
+        const factory = BUILT_IN_VALIDATORS[name] as (options: unknown) => Validator;
+        validators.push(factory(options));
+      }
+    }
+
+    return new ValidatorPipeline(validators, command ? command.commands : []);
+  }
+
+  /**
+   * Commands the `command` validator will run (shown to Claude up front)
+   */
+  getAcceptanceCommands(): string[] {
+    return this.acceptanceCommands;
+  }
+
+  /**
+   * Run every validator in order and collect their issues
+   * onProgress is called with each validator's name before it runs
+   */
+  async run(context: ValidationContext, onProgress?: (name: string) => void): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+
+    for (const validator of this.validators) {
+      onProgress?.(validator.name);
+      issues.push(...(await validator.validate(context)));
+    }
+
+    return issues;
+  }
+}
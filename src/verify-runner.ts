@@ -0,0 +1,83 @@
+import { execa } from 'execa';
+import { ValidationIssue } from './types.js';
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes per command
+const OUTPUT_TAIL_LINES = 60;
+
+/**
+ * Result of a single acceptance command
+ */
+export interface VerifyCommandResult {
+  command: string;
+  exitCode: number;
+  output: string; // Tail of combined stdout/stderr
+  timedOut: boolean;
+}
+
+/**
+ * Runs a task's acceptance commands (`verify:`) in its worktree
+ * The supervisor runs these itself instead of trusting the outputs Claude reports
+ */
+export class VerifyRunner {
+  private cwd: string;
+  private timeoutMs: number;
+
+  constructor(cwd: string, timeoutMs: number = DEFAULT_COMMAND_TIMEOUT_MS) {
+    this.cwd = cwd;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Run each command in order and report every failure as an exit_code_mismatch issue
+   */
+  async verify(commands: string[], claimedStatus: string): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+
+    for (const command of commands) {
+      const result = await this.runCommand(command);
+
+      if (result.exitCode !== 0) {
+        const reason = result.timedOut
+          ? `timed out after ${Math.round(this.timeoutMs / 1000)}s`
+          : `exited with code ${result.exitCode}`;
+
+        issues.push({
+          type: 'exit_code_mismatch',
+          message: `\`${command}\` ${reason} but task reported ${claimedStatus}`,
+          output: result.output || undefined,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Run a single command through the shell, never throwing on failure
+   * The whole string goes to the shell (execaCommand would split it on spaces first, mangling quoted arguments)
+   */
+  async runCommand(command: string): Promise<VerifyCommandResult> {
+    const result = await execa(command, {
+      cwd: this.cwd,
+      shell: true,
+      all: true,
+      reject: false,
+      timeout: this.timeoutMs,
+    });
+
+    return {
+      command,
+      exitCode: result.exitCode ?? 1,
+      output: this.tail(result.all ?? ''),
+      timedOut: result.timedOut,
+    };
+  }
+
+  private tail(output: string): string {
+    const lines = output.trimEnd().split('\n');
+    if (lines.length <= OUTPUT_TAIL_LINES) {
+      return lines.join('\n');
+    }
+    return [`... (${lines.length - OUTPUT_TAIL_LINES} earlier lines omitted)`, ...lines.slice(-OUTPUT_TAIL_LINES)].join('\n');
+  }
+}
@@ -0,0 +1,133 @@
+import { cp, mkdir, readdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { minimatch } from 'minimatch';
+import { execa } from 'execa';
+import type { WorktreeConfig } from './schemas.js';
+import { VerifyRunner } from './verify-runner.js';
+
+// Never copied: git metadata and claudefather's own working directory
+const SKIPPED_DIRS = new Set(['.git', '.claudefather']);
+
+/**
+ * Prepares a task's worktree before Claude starts: copies untracked files
+ * (e.g. .env) from the main checkout and runs the configured setup commands
+ */
+export class WorktreeBootstrap {
+  private projectDir: string;
+  private config: WorktreeConfig;
+
+  constructor(projectDir: string, config: WorktreeConfig) {
+    this.projectDir = projectDir;
+    this.config = config;
+  }
+
+  /**
+   * Whether there is anything to do
+   */
+  isConfigured(): boolean {
+    return this.config.copy.length > 0 || this.config.setup.length > 0;
+  }
+
+  /**
+   * Copy files, then run setup commands in order, writing everything to log
+   * Throws on the first failing command
+   */
+  async run(worktreePath: string, log: (text: string) => Promise<void>): Promise<void> {
+    if (this.config.copy.length > 0) {
+      const copied = await this.copyFiles(worktreePath);
+      await log(`Copied ${copied.length} file(s)${copied.length > 0 ? `: ${copied.join(', ')}` : ''}\n`);
+    }
+
+    const runner = new VerifyRunner(worktreePath, this.config.setupTimeoutMs);
+    for (const command of this.config.setup) {
+      await log(`\n$ ${command}\n`);
+      const result = await runner.runCommand(command);
+      await log(`${result.output}\n[exit code ${result.exitCode}${result.timedOut ? ', timed out' : ''}]\n`);
+
+      if (result.exitCode !== 0) {
+        const reason = result.timedOut ? 'timed out' : `exited with code ${result.exitCode}`;
+        throw new Error(`Setup command \`${command}\` ${reason}`);
+      }
+    }
+  }
+
+  /**
+   * Copy every untracked or ignored file in the main checkout matching a `copy` glob into the worktree
+   */
+  private async copyFiles(worktreePath: string): Promise<string[]> {
+    const files = await this.findFiles();
+
+    for (const file of files) {
+      const destination = join(worktreePath, file);
+      await mkdir(dirname(destination), { recursive: true });
+      await cp(join(this.projectDir, file), destination, { force: true });
+    }
+
+    return files;
+  }
+
+  /**
+   * List the files git doesn't track (tracked files are already in the worktree)
+   * Wholly ignored directories such as node_modules are listed by git as one entry, and only
+   * walked when a glob names a path inside them - a leading `**` never reaches into them
+   */
+  private async findFiles(): Promise<string[]> {
+    const list = async (args: string[]) =>
+      (await execa('git', ['ls-files', '-z', '--others', '--exclude-standard', ...args], { cwd: this.projectDir }))
+        .stdout.split('\0')
+        .filter(Boolean);
+    const entries = [...(await list([])), ...(await list(['--ignored', '--directory']))];
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      if (SKIPPED_DIRS.has(entry.split('/')[0])) {
+        continue;
+      }
+      if (entry.endsWith('/')) {
+        const dir = entry.slice(0, -1);
+        if (this.config.copy.some((glob) => this.getLiteralPrefix(glob).startsWith(`${dir}/`))) {
+          files.push(...(await this.walk(dir)));
+        }
+      } else if (this.matches(entry)) {
+        files.push(entry);
+      }
+    }
+
+    return [...new Set(files)].sort();
+  }
+
+  /**
+   * Walk an ignored directory, only descending into directories a glob could match inside
+   */
+  private async walk(relativeDir: string): Promise<string[]> {
+    const entries = await readdir(join(this.projectDir, relativeDir), { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const path = `${relativeDir}/${entry.name}`;
+
+      if (entry.isDirectory()) {
+        if (this.config.copy.some((glob) => minimatch(path, glob, { dot: true, partial: true }))) {
+          files.push(...(await this.walk(path)));
+        }
+      } else if (entry.isFile() && this.matches(path)) {
+        files.push(path);
+      }
+    }
+
+    return files;
+  }
+
+  private matches(path: string): boolean {
+    return this.config.copy.some((glob) => minimatch(path, glob, { dot: true }));
+  }
+
+  /**
+   * The leading path segments of a glob that contain no pattern characters (`config/` for `config/*.json`)
+   */
+  private getLiteralPrefix(glob: string): string {
+    const segments = glob.split('/');
+    const literal = segments.findIndex((segment) => /[*?[\]{}()!+@]/.test(segment));
+    return literal === -1 ? glob : segments.slice(0, literal).map((segment) => `${segment}/`).join('');
+  }
+}
@@ -1,6 +1,41 @@
 import { execa, execaCommand } from 'execa';
-import { join } from 'path';
-import { cp } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { cp, readdir, readFile, realpath, rm, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { StateManager } from './state-manager.js';
+import { writeFileAtomic } from './file-lock.js';
+import { RebaseConflict } from './types.js';
+
+/**
+ * A task's worktree, as created or reused by createWorktree
+ */
+export interface WorktreeInfo {
+  path: string;
+  baseSha: string; // Commit the task's own changes start from
+  reused: boolean; // Whether an existing branch was checked out instead of a new one created
+}
+
+/**
+ * A worktree as reported by `git worktree list`
+ */
+export interface WorktreeEntry {
+  path: string;
+  branch?: string; // Missing for detached HEADs
+  head?: string;
+  prunable: boolean; // Directory no longer exists
+}
+
+/**
+ * A task's worktree directory, for listing and cleanup
+ */
+export interface TaskWorktree {
+  taskId: string;
+  path: string;
+  branch?: string;
+  createdAt?: Date;
+  dirty: boolean; // Has uncommitted changes
+  registered: boolean; // False for leftover directories git no longer tracks
+}
 
 /**
  * Manages git worktree lifecycle for parallel task execution
@@ -8,6 +43,7 @@ import { cp } from 'fs/promises';
 export class WorktreeManager {
   private projectDir: string;
   private worktreeBaseDir: string;
+  private fetches = new Map<string, Promise<void>>(); // Remote refs fetched by this manager
 
   constructor(projectDir: string = '.') {
     this.projectDir = projectDir;
@@ -21,6 +57,13 @@ export class WorktreeManager {
     return join(this.worktreeBaseDir, taskId);
   }
 
+  /**
+   * Get the path of the worktree used by `integrate`
+   */
+  getIntegrationWorktreePath(): string {
+    return join(this.projectDir, '.claudefather', 'integration');
+  }
+
   /**
    * Get the feature branch name for a task
    */
@@ -29,20 +72,104 @@ export class WorktreeManager {
   }
 
   /**
-   * Create a worktree for a task
+   * Resolve the ref tasks start from, fetching it from a remote first when one is given
+   * Each remote ref is fetched once, however many tasks start from it
    */
-  async createWorktree(taskId: string, branchPrefix: string = 'feature'): Promise<string> {
+  async resolveBaseRef(ref: string, remote?: string): Promise<string> {
+    let resolved = ref;
+
+    if (remote) {
+      resolved = `${remote}/${ref}`;
+      let fetch = this.fetches.get(resolved);
+      if (!fetch) {
+        fetch = this.git(['fetch', remote, ref], this.projectDir).then(() => undefined);
+        this.fetches.set(resolved, fetch);
+      }
+
+      try {
+        await fetch;
+      } catch (error) {
+        throw new Error(`Failed to fetch ${ref} from ${remote}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', `${resolved}^{commit}`], this.projectDir);
+    } catch {
+      throw new Error(`Base ref "${resolved}" does not exist`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Create a worktree for a task, reusing what a previous run left behind
+   * - An existing worktree directory is repaired and reattached to the task's branch
+   * - An existing feature branch is checked out so retries build on its earlier commits
+   * - Otherwise a new branch is created from the first base branch (or HEAD)
+   * A new branch starts from the first base branch (e.g. a prerequisite task's branch) and
+   * has the others merged in. A reused branch is left where it is - moving it onto its
+   * bases is a rebase, done by conflict resolution. `fresh` deletes the old worktree and
+   * branch first
+   */
+  async createWorktree(
+    taskId: string,
+    branchPrefix: string = 'feature',
+    baseBranches: string[] = [],
+    fresh: boolean = false
+  ): Promise<WorktreeInfo> {
     const worktreePath = this.getWorktreePath(taskId);
     const branchName = this.getFeatureBranchName(taskId, branchPrefix);
+    const [startPoint, ...otherBases] = baseBranches;
 
     try {
-      // Create new worktree with new branch
-      // Use execa instead of execaCommand to properly escape arguments
-      await execa('git', ['worktree', 'add', worktreePath, '-b', branchName], {
-        cwd: this.projectDir,
-      });
+      if (fresh) {
+        await this.discardWorktree(taskId, branchName);
+      }
 
-      return worktreePath;
+      if (existsSync(worktreePath) && !(await this.isWorktree(worktreePath))) {
+        await this.repairWorktreeDir(worktreePath);
+      }
+
+      let reused = true;
+      if (await this.isWorktree(worktreePath)) {
+        // Left behind by a crashed or interrupted run
+        const currentBranch = (await this.git(['branch', '--show-current'], worktreePath)).trim();
+        if (currentBranch !== branchName) {
+          await this.git(['checkout', branchName], worktreePath);
+        }
+      } else {
+        // Clear registrations of worktree directories that no longer exist
+        await this.git(['worktree', 'prune'], this.projectDir);
+
+        if (await this.branchExists(branchName)) {
+          await this.git(['worktree', 'add', worktreePath, branchName], this.projectDir);
+        } else {
+          // Create new worktree with new branch
+          const args = ['worktree', 'add', worktreePath, '-b', branchName];
+          if (startPoint) {
+            args.push(startPoint);
+          }
+          await this.git(args, this.projectDir);
+          reused = false;
+        }
+      }
+
+      for (const base of reused ? [] : otherBases) {
+        try {
+          await execa('git', ['merge', '--no-edit', base], { cwd: worktreePath });
+        } catch (error) {
+          await execa('git', ['merge', '--abort'], { cwd: worktreePath }).catch(() => undefined);
+          throw new Error(`Could not merge ${base} into ${branchName}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // The task's own changes are everything after where its branch left its base
+      const baseSha = reused
+        ? (await this.git(['merge-base', 'HEAD', startPoint ?? (await this.getProjectHead())], worktreePath)).trim()
+        : await this.getHeadSha(taskId);
+
+      return { path: worktreePath, baseSha, reused };
     } catch (error) {
       throw new Error(
         `Failed to create worktree for task ${taskId}: ${error instanceof Error ? error.message : String(error)}`
@@ -50,23 +177,189 @@ export class WorktreeManager {
     }
   }
 
+  /**
+   * Create the integration worktree on a branch, creating the branch from startPoint (or HEAD) if needed
+   * A worktree left behind by an earlier integration is removed first
+   */
+  async createIntegrationWorktree(branchName: string, startPoint?: string): Promise<string> {
+    const worktreePath = this.getIntegrationWorktreePath();
+
+    try {
+      await this.removeIntegrationWorktree();
+
+      if (await this.branchExists(branchName)) {
+        await this.git(['worktree', 'add', worktreePath, branchName], this.projectDir);
+      } else {
+        const args = ['worktree', 'add', worktreePath, '-b', branchName];
+        if (startPoint) {
+          args.push(startPoint);
+        }
+        await this.git(args, this.projectDir);
+      }
+
+      return worktreePath;
+    } catch (error) {
+      throw new Error(
+        `Failed to create integration worktree for ${branchName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Remove the integration worktree (the integration branch is kept)
+   */
+  async removeIntegrationWorktree(): Promise<void> {
+    const worktreePath = this.getIntegrationWorktreePath();
+
+    if (await this.isWorktree(worktreePath)) {
+      await this.git(['worktree', 'remove', '--force', worktreePath], this.projectDir);
+    }
+    await rm(worktreePath, { recursive: true, force: true });
+    await this.git(['worktree', 'prune'], this.projectDir);
+  }
+
+  /**
+   * Delete a task's worktree and feature branch so it starts over
+   */
+  private async discardWorktree(taskId: string, branchName: string): Promise<void> {
+    const worktreePath = this.getWorktreePath(taskId);
+
+    if (await this.isWorktree(worktreePath)) {
+      await this.git(['worktree', 'remove', '--force', worktreePath], this.projectDir);
+    }
+    await rm(worktreePath, { recursive: true, force: true });
+    await this.git(['worktree', 'prune'], this.projectDir);
+
+    if (await this.branchExists(branchName)) {
+      await this.git(['branch', '-D', branchName], this.projectDir);
+    }
+  }
+
+  /**
+   * Repair a leftover worktree directory git no longer recognizes, or remove it if it can't be repaired
+   */
+  private async repairWorktreeDir(worktreePath: string): Promise<void> {
+    await this.git(['worktree', 'repair', worktreePath], this.projectDir).catch(() => undefined);
+    if (!(await this.isWorktree(worktreePath))) {
+      await rm(worktreePath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Whether a directory is the root of a working git worktree
+   */
+  private async isWorktree(path: string): Promise<boolean> {
+    if (!existsSync(join(path, '.git'))) {
+      return false;
+    }
+
+    try {
+      const topLevel = (await this.git(['rev-parse', '--show-toplevel'], path)).trim();
+      return (await realpath(topLevel)) === (await realpath(path));
+    } catch {
+      return false;
+    }
+  }
+
+  private async branchExists(branchName: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`], this.projectDir);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getProjectHead(): Promise<string> {
+    return (await this.git(['rev-parse', 'HEAD'], this.projectDir)).trim();
+  }
+
+  private async git(args: string[], cwd: string): Promise<string> {
+    // Use execa instead of execaCommand to properly escape arguments
+    const { stdout } = await execa('git', args, { cwd });
+    return stdout;
+  }
+
+  /**
+   * Get the commit currently checked out in a task's worktree
+   */
+  async getHeadSha(taskId: string): Promise<string> {
+    const { stdout } = await execa('git', ['rev-parse', 'HEAD'], {
+      cwd: this.getWorktreePath(taskId),
+    });
+    return stdout.trim();
+  }
+
+  /**
+   * Rebase a task's branch onto a ref, leaving the worktree in the conflicted rebase state if it stops
+   * Throws if the rebase fails for a reason other than conflicts (e.g. uncommitted changes)
+   */
+  async startRebase(taskId: string, onto: string): Promise<RebaseConflict> {
+    const worktreePath = this.getWorktreePath(taskId);
+    const mergeBase = (await this.git(['merge-base', 'HEAD', onto], worktreePath)).trim();
+    const ontoSha = (await this.git(['rev-parse', `${onto}^{commit}`], worktreePath)).trim();
+
+    const result = await execa('git', ['rebase', onto], {
+      cwd: worktreePath,
+      reject: false,
+      env: { GIT_EDITOR: 'true' },
+    });
+    if (result.exitCode === 0) {
+      return { onto, ontoSha, files: [], upstreamCommits: [] };
+    }
+
+    const files = (await this.git(['diff', '--name-only', '--diff-filter=U'], worktreePath))
+      .split('\n')
+      .filter((file) => file.trim());
+    if (files.length === 0) {
+      await this.abortRebase(taskId);
+      throw new Error(`Could not rebase ${taskId} onto ${onto}: ${result.stderr || result.stdout}`);
+    }
+
+    const upstreamCommits = (await this.git(['log', '--oneline', `${mergeBase}..${ontoSha}`, '--', ...files], worktreePath))
+      .split('\n')
+      .filter((line) => line.trim());
+
+    return { onto, ontoSha, files, upstreamCommits };
+  }
+
+  /**
+   * Abort a rebase left in progress in a task's worktree (no-op if there is none)
+   */
+  async abortRebase(taskId: string): Promise<void> {
+    await execa('git', ['rebase', '--abort'], { cwd: this.getWorktreePath(taskId), reject: false });
+  }
+
   /**
    * Remove a worktree after task completion
+   * `force` also removes worktrees with uncommitted changes, and directories git doesn't know about
    */
-  async removeWorktree(taskId: string): Promise<void> {
+  async removeWorktree(taskId: string, force: boolean = false): Promise<boolean> {
     const worktreePath = this.getWorktreePath(taskId);
 
     try {
+      if (force && !(await this.isWorktree(worktreePath))) {
+        await rm(worktreePath, { recursive: true, force: true });
+        await this.git(['worktree', 'prune'], this.projectDir);
+        return true;
+      }
+
       // Remove the worktree
       // Use execa instead of execaCommand to properly escape arguments
-      await execa('git', ['worktree', 'remove', worktreePath], {
+      const args = ['worktree', 'remove', worktreePath];
+      if (force) {
+        args.push('--force');
+      }
+      await execa('git', args, {
         cwd: this.projectDir,
       });
+      return true;
     } catch (error) {
       // Log warning but don't fail - worktree removal is best-effort
       console.warn(
         `Warning: Failed to remove worktree for task ${taskId}: ${error instanceof Error ? error.message : String(error)}`
       );
+      return false;
     }
   }
 
@@ -87,25 +380,33 @@ export class WorktreeManager {
   }
 
   /**
-   * List all active worktrees
+   * List all worktrees git knows about, parsed from `git worktree list --porcelain`
+   * Porcelain output is one "<key> <value>" line per attribute, with a blank line between worktrees
    */
-  async listWorktrees(): Promise<Array<{ path: string; branch: string }>> {
+  async listWorktrees(): Promise<WorktreeEntry[]> {
     try {
       const { stdout } = await execaCommand('git worktree list --porcelain', {
         cwd: this.projectDir,
       });
 
-      const worktrees: Array<{ path: string; branch: string }> = [];
+      const worktrees: WorktreeEntry[] = [];
+      let current: WorktreeEntry | null = null;
       for (const line of stdout.split('\n')) {
-        if (line.startsWith('worktree')) {
-          const parts = line.split('\t');
-          if (parts.length >= 2) {
-            const path = parts[0].replace('worktree ', '');
-            worktrees.push({
-              path,
-              branch: parts[1] || 'unknown',
-            });
-          }
+        const separator = line.indexOf(' ');
+        const key = separator === -1 ? line : line.substring(0, separator);
+        const value = separator === -1 ? '' : line.substring(separator + 1);
+
+        if (key === 'worktree') {
+          current = { path: value, prunable: false };
+          worktrees.push(current);
+        } else if (!current) {
+          continue;
+        } else if (key === 'HEAD') {
+          current.head = value;
+        } else if (key === 'branch') {
+          current.branch = value.replace(/^refs\/heads\//, '');
+        } else if (key === 'prunable') {
+          current.prunable = true;
         }
       }
       return worktrees;
@@ -117,23 +418,98 @@ export class WorktreeManager {
     }
   }
 
+  /**
+   * List task worktrees: registered worktrees in the worktrees directory, plus
+   * directories left there that git no longer tracks
+   */
+  async listTaskWorktrees(): Promise<TaskWorktree[]> {
+    // git reports real paths, so compare against the real worktrees directory
+    const baseDir = await realpath(this.worktreeBaseDir).catch(() => resolve(this.worktreeBaseDir));
+    const registered = new Map(
+      (await this.listWorktrees())
+        .filter((entry) => dirname(resolve(entry.path)) === baseDir)
+        .map((entry) => [basename(entry.path), entry])
+    );
+
+    let dirs: string[] = [];
+    try {
+      const entries = await readdir(this.worktreeBaseDir, { withFileTypes: true });
+      dirs = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const taskIds = [...new Set([...registered.keys(), ...dirs])].sort();
+    const worktrees: TaskWorktree[] = [];
+    for (const taskId of taskIds) {
+      const path = this.getWorktreePath(taskId);
+      const entry = registered.get(taskId);
+      const valid = !!entry && !entry.prunable && (await this.isWorktree(path));
+
+      worktrees.push({
+        taskId,
+        path,
+        branch: entry?.branch,
+        createdAt: await this.getCreatedAt(path),
+        dirty: valid ? await this.isDirty(path) : false,
+        registered: valid,
+      });
+    }
+
+    return worktrees;
+  }
+
+  /**
+   * When a worktree was created (git writes its .git file once, on `worktree add`)
+   */
+  private async getCreatedAt(path: string): Promise<Date | undefined> {
+    for (const candidate of [join(path, '.git'), path]) {
+      try {
+        return (await stat(candidate)).mtime;
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a worktree has uncommitted changes (ignoring claudefather's own files)
+   */
+  private async isDirty(path: string): Promise<boolean> {
+    try {
+      const stdout = await this.git(['status', '--porcelain'], path);
+      return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .some((line) => !line.substring(3).startsWith('.claudefather'));
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Sync .claudefather files from worktree back to main project
-   * This copies task files, state files, and logs that Claude created in the worktree
-   * back to the main project directory so they persist after worktree cleanup
+   * Only files owned by the task are copied: its logs, plus task files Claude created that
+   * don't exist in the main project yet. The task's state file is skipped - the supervisor
+   * writes the main project's copy itself, from the state it validated. A main-project file
+   * that changed more recently than the worktree copy is kept (reported as a conflict)
    */
   async syncFromWorktree(taskId: string): Promise<void> {
     const worktreePath = this.getWorktreePath(taskId);
-    const worktreeClaude = join(worktreePath, '.claudefather');
-    const mainClaude = join(this.projectDir, '.claudefather');
+    const worktreeState = new StateManager(worktreePath);
+    const mainState = new StateManager(this.projectDir);
+    const conflicts: string[] = [];
 
     try {
-      // Sync tasks directory - copy any newly created task files
+      // Sync tasks directory - only add newly created task files, never overwrite existing ones
       try {
         await cp(
-          join(worktreeClaude, 'tasks'),
-          join(mainClaude, 'tasks'),
-          { recursive: true, force: true }
+          join(worktreePath, '.claudefather', 'tasks'),
+          join(this.projectDir, '.claudefather', 'tasks'),
+          { recursive: true, force: false, errorOnExist: false }
         );
       } catch (error) {
         // Tasks directory might not exist or be empty - that's OK
@@ -142,29 +518,13 @@ export class WorktreeManager {
         }
       }
 
-      // Sync state directory - copy state files
-      try {
-        await cp(
-          join(worktreeClaude, 'state'),
-          join(mainClaude, 'state'),
-          { recursive: true, force: true }
-        );
-      } catch (error) {
-        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-          throw error;
-        }
-      }
-
-      // Sync logs directory - copy log files
-      try {
-        await cp(
-          join(worktreeClaude, 'logs'),
-          join(mainClaude, 'logs'),
-          { recursive: true, force: true }
-        );
-      } catch (error) {
-        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-          throw error;
+      // Sync the task's own log files
+      for (const [source, logPath] of [
+        [worktreeState.getLogPath(taskId), mainState.getLogPath(taskId)],
+        [worktreeState.getEventLogPath(taskId), mainState.getEventLogPath(taskId)],
+      ]) {
+        if (!(await this.syncFile(source, logPath))) {
+          conflicts.push(logPath);
         }
       }
     } catch (error) {
@@ -173,5 +533,46 @@ export class WorktreeManager {
         `Warning: Failed to sync files from worktree for task ${taskId}: ${error instanceof Error ? error.message : String(error)}`
       );
     }
+
+    if (conflicts.length > 0) {
+      console.warn(
+        `Warning: Kept main project copies of ${conflicts.join(', ')} for task ${taskId} (changed after the worktree copy)`
+      );
+    }
+  }
+
+  /**
+   * Copy a file unless the destination has different content and was modified more recently
+   * Returns false on such a conflict, true otherwise (including when there is nothing to copy)
+   */
+  private async syncFile(source: string, destination: string): Promise<boolean> {
+    let content: string;
+    let sourceMtime: number;
+    try {
+      content = await readFile(source, 'utf-8');
+      sourceMtime = (await stat(source)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+
+    try {
+      const existing = await readFile(destination, 'utf-8');
+      if (existing === content) {
+        return true;
+      }
+      if ((await stat(destination)).mtimeMs > sourceMtime) {
+        return false;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    await writeFileAtomic(destination, content);
+    return true;
   }
 }
@@ -0,0 +1,323 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { execa } from 'execa';
+import { AISupervisor } from '../src/supervisor.js';
+import { ScriptedRunner } from '../src/scripted-runner.js';
+import { StateManager } from '../src/state-manager.js';
+import type { Scenario } from '../src/schemas.js';
+
+interface ProjectSetup {
+  tasks: Record<string, { task: string; scenario?: Scenario }>; // Task ID -> task file and its scenario
+  committed?: Record<string, string>; // Files in the initial commit (default: a .gitignore for .claudefather)
+  config?: Record<string, unknown>; // .claudefatherrc
+}
+
+/**
+ * A git repository with an initial commit, plus tasks, their scenarios and settings
+ */
+async function createProject(setup: ProjectSetup): Promise<string> {
+  const projectDir = await mkdtemp(join(tmpdir(), 'claudefather-test-'));
+  const git = (...args: string[]) => execa('git', args, { cwd: projectDir });
+  const write = async (path: string, content: string) => {
+    await mkdir(dirname(join(projectDir, path)), { recursive: true });
+    await writeFile(join(projectDir, path), content);
+  };
+
+  await git('init', '--quiet', '--initial-branch', 'main');
+  await git('config', 'user.name', 'Claudefather Test');
+  await git('config', 'user.email', 'test@example.com');
+  for (const [path, content] of Object.entries(setup.committed ?? { '.gitignore': '.claudefather/\n' })) {
+    await write(path, content);
+  }
+  await git('add', '-A');
+  await git('commit', '--quiet', '-m', 'Initial commit');
+
+  for (const [taskId, { task, scenario }] of Object.entries(setup.tasks)) {
+    await write(`.claudefather/tasks/${taskId}.md`, task);
+    if (scenario) {
+      await write(`.claudefather/scenarios/${taskId}.json`, JSON.stringify(scenario));
+    }
+  }
+  if (setup.config) {
+    await write('.claudefather/.claudefatherrc', JSON.stringify(setup.config));
+  }
+
+  return projectDir;
+}
+
+/**
+ * Run the supervisor over the project with scripted sessions
+ */
+async function runSupervisor(projectDir: string): Promise<void> {
+  const supervisor = new AISupervisor(projectDir, 1, {
+    createRunner: ScriptedRunner.factory(join(projectDir, '.claudefather', 'scenarios')),
+  });
+  await supervisor.run();
+}
+
+test('a claim that fails validation is retried until it is verified complete', async () => {
+  const projectDir = await createProject({
+    tasks: {
+      greeting: {
+        task: `---\nverify: "test -f greeting.txt && grep -q 'hello   world' greeting.txt"\n---\n# Add a greeting\n`,
+        scenario: {
+          sessions: [
+            {
+              // Claims completion without doing the work: the acceptance command fails
+              steps: [
+                { verify: true },
+                { commit: 'Claim the greeting' },
+                { state: { status: 'VERIFIED_COMPLETE', summary: 'Added the greeting' } },
+              ],
+              costUsd: 0.1,
+            },
+            {
+              steps: [
+                { write: { path: 'greeting.txt', content: 'hello   world\n' } },
+                { verify: true },
+                { commit: 'Add the greeting' },
+                { state: { status: 'VERIFIED_COMPLETE', summary: 'Added the greeting' } },
+              ],
+              costUsd: 0.2,
+            },
+          ],
+          reviews: [],
+        },
+      },
+    },
+  });
+
+  try {
+    await runSupervisor(projectDir);
+
+    const stateManager = new StateManager(projectDir);
+    const state = await stateManager.loadState('greeting');
+    assert.equal(state?.status, 'VERIFIED_COMPLETE');
+    assert.equal(state?.attemptNumber, 2);
+    assert.ok(Math.abs((state?.usage?.costUsd ?? 0) - 0.3) < 1e-9);
+
+    const [first, second] = await stateManager.getHistory('greeting');
+    assert.equal(first.status, 'NEEDS_RETRY');
+    assert.ok(first.validationIssues.some((issue) => issue.type === 'exit_code_mismatch'));
+    assert.equal(second.status, 'VERIFIED_COMPLETE');
+    assert.deepEqual(second.validationIssues, []);
+
+    const { stdout } = await execa('git', ['show', 'feature/greeting:greeting.txt'], { cwd: projectDir });
+    assert.equal(stdout, 'hello   world');
+  } finally {
+    await rm(projectDir, { recursive: true, force: true });
+  }
+});
+
+test('a forbidden template changed through Bash is sent back as a retry', async () => {
+  const projectDir = await createProject({
+    committed: {
+      '.gitignore': '.claudefather/*\n!.claudefather/templates/\n',
+      '.claudefather/templates/system-prompt.md': 'Project rules\n',
+    },
+    config: { forbiddenPaths: ['.claudefather/templates'] },
+    tasks: {
+      rules: {
+        task: '# Relax the rules\n',
+        scenario: {
+          sessions: [
+            {
+              // The Bash write never reaches the path hook, only the check after the session
+              steps: [
+                { run: 'echo "Anything goes" >> .claudefather/templates/system-prompt.md' },
+                { run: 'git add .claudefather/templates && git commit -q -m "Relax the rules"' },
+                { state: { status: 'VERIFIED_COMPLETE', summary: 'Relaxed the rules' } },
+              ],
+              costUsd: 0,
+            },
+          ],
+          reviews: [],
+        },
+      },
+    },
+  });
+
+  try {
+    await runSupervisor(projectDir);
+
+    const [first] = await new StateManager(projectDir).getHistory('rules');
+    assert.equal(first.status, 'NEEDS_RETRY');
+    assert.ok(
+      first.validationIssues.some(
+        (issue) => issue.type === 'forbidden_path' && issue.message.includes('.claudefather/templates/system-prompt.md')
+      )
+    );
+  } finally {
+    await rm(projectDir, { recursive: true, force: true });
+  }
+});
+
+test('a session that writes no state file fails and counts as an attempt', async () => {
+  const projectDir = await createProject({
+    tasks: {
+      silent: {
+        task: '# Say nothing\n',
+        scenario: {
+          sessions: [
+            { steps: [{ state: { status: 'NEEDS_RETRY', summary: 'Not done yet' } }], costUsd: 0 },
+            // The first session's state file is still in the worktree and must not be read again
+            { steps: [{ say: 'Finished' }], costUsd: 0 },
+          ],
+          reviews: [],
+        },
+      },
+    },
+  });
+
+  try {
+    await runSupervisor(projectDir);
+
+    const stateManager = new StateManager(projectDir);
+    const state = await stateManager.loadState('silent');
+    assert.equal(state?.status, 'HUMAN_REVIEW_REQUIRED');
+    assert.match(state?.blockerContext ?? '', /did not write state file/);
+    assert.equal(state?.attemptNumber, 2);
+
+    const history = await stateManager.getHistory('silent');
+    assert.deepEqual(
+      history.map((record) => record.status),
+      ['NEEDS_RETRY', 'HUMAN_REVIEW_REQUIRED']
+    );
+  } finally {
+    await rm(projectDir, { recursive: true, force: true });
+  }
+});
+
+test('a task whose prerequisite is blocked is skipped', async () => {
+  const projectDir = await createProject({
+    tasks: {
+      schema: {
+        task: '# Design the schema\n',
+        scenario: {
+          sessions: [
+            {
+              steps: [
+                {
+                  state: {
+                    status: 'MISSING_INFORMATION',
+                    summary: 'Need the field list',
+                    blockerContext: 'Which fields does a user have?',
+                  },
+                },
+              ],
+              costUsd: 0,
+            },
+          ],
+          reviews: [],
+        },
+      },
+      // No scenario: the task must never start a session
+      api: { task: '---\ndependsOn: schema\n---\n# Build the API\n' },
+    },
+  });
+
+  try {
+    await runSupervisor(projectDir);
+
+    const stateManager = new StateManager(projectDir);
+    assert.equal((await stateManager.loadState('schema'))?.status, 'MISSING_INFORMATION');
+    assert.equal(await stateManager.loadState('api'), null);
+    assert.deepEqual(await stateManager.getHistory('api'), []);
+
+    const { stdout } = await execa('git', ['branch', '--list', 'feature/api'], { cwd: projectDir });
+    assert.equal(stdout, '');
+  } finally {
+    await rm(projectDir, { recursive: true, force: true });
+  }
+});
+
+test('an edit to a forbidden path is sent back until it is undone', async () => {
+  const projectDir = await createProject({
+    committed: { '.gitignore': '.claudefather/\n', 'migrations/001.sql': 'CREATE TABLE users (id INT);\n' },
+    config: { forbiddenPaths: ['migrations'] },
+    tasks: {
+      users: {
+        task: '# Add a users model\n',
+        scenario: {
+          sessions: [
+            {
+              steps: [
+                { run: 'echo "ALTER TABLE users ADD name TEXT;" >> migrations/001.sql' },
+                { write: { path: 'users.js', content: 'export const fields = ["id", "name"];\n' } },
+                { commit: 'Add the users model' },
+                { state: { status: 'VERIFIED_COMPLETE', summary: 'Added the users model' } },
+              ],
+              costUsd: 0,
+            },
+            {
+              steps: [
+                { run: 'git checkout main -- migrations' },
+                { commit: 'Leave the migrations alone' },
+                { state: { status: 'VERIFIED_COMPLETE', summary: 'Added the users model' } },
+              ],
+              costUsd: 0,
+            },
+          ],
+          reviews: [],
+        },
+      },
+    },
+  });
+
+  try {
+    await runSupervisor(projectDir);
+
+    const stateManager = new StateManager(projectDir);
+    assert.equal((await stateManager.loadState('users'))?.status, 'VERIFIED_COMPLETE');
+
+    const [first, second] = await stateManager.getHistory('users');
+    assert.equal(first.status, 'NEEDS_RETRY');
+    assert.ok(
+      first.validationIssues.some(
+        (issue) => issue.type === 'forbidden_path' && issue.message.includes('migrations/001.sql')
+      )
+    );
+    assert.equal(second.status, 'VERIFIED_COMPLETE');
+  } finally {
+    await rm(projectDir, { recursive: true, force: true });
+  }
+});
+
+test('a secret added on the branch escalates to human review', async () => {
+  const projectDir = await createProject({
+    tasks: {
+      deploy: {
+        task: '# Add the deploy script\n',
+        scenario: {
+          sessions: [
+            {
+              steps: [
+                { write: { path: 'deploy.sh', content: `export GITHUB_TOKEN=ghp_${'a1B2'.repeat(9)}\n` } },
+                { commit: 'Add the deploy script' },
+                { state: { status: 'VERIFIED_COMPLETE', summary: 'Added the deploy script' } },
+              ],
+              costUsd: 0,
+            },
+          ],
+          reviews: [],
+        },
+      },
+    },
+  });
+
+  try {
+    await runSupervisor(projectDir);
+
+    const stateManager = new StateManager(projectDir);
+    const state = await stateManager.loadState('deploy');
+    assert.equal(state?.status, 'HUMAN_REVIEW_REQUIRED');
+    assert.equal(state?.attemptNumber, 1);
+    assert.ok(state?.validationIssues?.some((issue) => issue.type === 'secret_detected'));
+    assert.match(state?.blockerContext ?? '', /rotate them/);
+  } finally {
+    await rm(projectDir, { recursive: true, force: true });
+  }
+});